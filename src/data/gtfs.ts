@@ -0,0 +1,661 @@
+import { createInterface } from 'node:readline';
+import { Arrival, Departure, Line, Location, Products, Stop, Stopover, Trip } from '../types/bvg.js';
+import { distanceBetween } from '../utils/api.js';
+import { NotFoundError } from '../utils/errors.js';
+import { BoardQuery, TimetableSource } from './source.js';
+import { openZipEntry, readZipEntries, ZipEntry } from './zip.js';
+
+const TIME_ZONE = 'Europe/Berlin';
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Prefix of VBB IFOPT stop IDs ("de:11000:900100003"), whose third part is the HAFAS stop ID
+ */
+const IFOPT_PATTERN = /^[a-z]{2}:\d+:(\d+)/i;
+
+const dateFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+});
+const offsetFormat = new Intl.DateTimeFormat('en-US', { timeZone: TIME_ZONE, timeZoneName: 'longOffset' });
+
+/**
+ * Split one CSV line, honoring quoted fields and escaped quotes
+ */
+export function parseCsvLine(line: string): string[] {
+  if (!line.includes('"')) {
+    return line.split(',');
+  }
+
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields;
+}
+
+/**
+ * Read a CSV entry row by row. The row object is reused between calls.
+ */
+async function readCsv(filePath: string, entry: ZipEntry, onRow: (row: (column: string) => string) => void): Promise<void> {
+  const lines = createInterface({ input: await openZipEntry(filePath, entry), crlfDelay: Infinity });
+  let columns: Map<string, number> | undefined;
+  let values: string[] = [];
+  const get = (column: string) => {
+    const index = columns!.get(column);
+    return index === undefined ? '' : values[index] ?? '';
+  };
+
+  for await (const line of lines) {
+    if (!columns) {
+      columns = new Map(parseCsvLine(line.replace(/^﻿/, '')).map((name, index) => [name.trim(), index]));
+      continue;
+    }
+    if (line.length === 0) {
+      continue;
+    }
+    values = parseCsvLine(line);
+    onRow(get);
+  }
+}
+
+/**
+ * Append-only column of integers backed by a growing typed array
+ */
+class IntColumn {
+  private data = new Int32Array(1 << 16);
+  length = 0;
+
+  push(value: number): void {
+    if (this.length === this.data.length) {
+      const grown = new Int32Array(this.data.length * 2);
+      grown.set(this.data);
+      this.data = grown;
+    }
+    this.data[this.length++] = value;
+  }
+
+  get(index: number): number {
+    return this.data[index];
+  }
+}
+
+/**
+ * Row indices grouped by key, built with a counting sort
+ */
+interface RowIndex {
+  offsets: Uint32Array;
+  rows: Uint32Array;
+}
+
+function buildIndex(keys: IntColumn, keyCount: number): RowIndex {
+  const offsets = new Uint32Array(keyCount + 1);
+  for (let row = 0; row < keys.length; row++) {
+    offsets[keys.get(row) + 1]++;
+  }
+  for (let key = 0; key < keyCount; key++) {
+    offsets[key + 1] += offsets[key];
+  }
+
+  const next = offsets.slice(0, keyCount);
+  const rows = new Uint32Array(keys.length);
+  for (let row = 0; row < keys.length; row++) {
+    rows[next[keys.get(row)]++] = row;
+  }
+
+  return { offsets, rows };
+}
+
+/**
+ * "25:10:00" → seconds after the start of the service day, -1 when empty
+ */
+function parseTime(value: string): number {
+  if (!value) return -1;
+  const [hours, minutes, seconds] = value.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + (seconds || 0);
+}
+
+/**
+ * Service dates are handled as YYYYMMDD numbers
+ */
+function berlinDate(ms: number): number {
+  return Number(dateFormat.format(ms).replace(/-/g, ''));
+}
+
+function addDays(date: number, days: number): number {
+  const shifted = new Date(Date.UTC(Math.floor(date / 10000), Math.floor(date / 100) % 100 - 1, date % 100 + days));
+  return shifted.getUTCFullYear() * 10000 + (shifted.getUTCMonth() + 1) * 100 + shifted.getUTCDate();
+}
+
+function weekday(date: number): number {
+  return new Date(Date.UTC(Math.floor(date / 10000), Math.floor(date / 100) % 100 - 1, date % 100)).getUTCDay();
+}
+
+function offsetMinutes(ms: number): number {
+  const name = offsetFormat.formatToParts(ms).find(part => part.type === 'timeZoneName')?.value ?? '';
+  const match = /GMT([+-])(\d{2}):(\d{2})/.exec(name);
+  return match ? (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3])) : 0;
+}
+
+/**
+ * GTFS times count from noon minus 12 hours, which is midnight except on DST change days
+ */
+function serviceDayStart(date: number): number {
+  const noon = Date.UTC(Math.floor(date / 10000), Math.floor(date / 100) % 100 - 1, date % 100, 12);
+  return noon - offsetMinutes(noon) * 60 * 1000 - 12 * HOUR_MS;
+}
+
+/**
+ * ISO date and time with the Berlin offset, like the upstream API returns
+ */
+function toBerlinIso(ms: number): string {
+  const offset = offsetMinutes(ms);
+  const local = new Date(ms + offset * 60 * 1000).toISOString().slice(0, 19);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${local}${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Map GTFS (extended) route types to BVG products
+ */
+function productOf(routeType: number, name: string): keyof Products {
+  if (routeType === 109 || ((routeType === 2 || (routeType >= 100 && routeType < 200)) && /^S\d/.test(name))) return 'suburban';
+  if (routeType === 1 || (routeType >= 400 && routeType < 500)) return 'subway';
+  if (routeType === 0 || (routeType >= 900 && routeType < 1000)) return 'tram';
+  if (routeType === 4 || routeType === 1000 || routeType === 1200) return 'ferry';
+  if (routeType >= 100 && routeType <= 102) return 'express';
+  if (routeType === 2 || (routeType >= 100 && routeType < 200)) return /^(ICE|IC|EC|FLX|NJ)\b/.test(name) ? 'express' : 'regional';
+  return 'bus';
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().normalize('NFD').replace(/[̀-ͯ]/g, '').replace(/ß/g, 'ss');
+}
+
+interface StopRecord {
+  gtfsId: string;
+  publicId: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  parent: number;
+  platform?: string;
+}
+
+interface RouteRecord {
+  id: string;
+  name: string;
+  type: number;
+  agency: string;
+}
+
+interface TripRecord {
+  id: string;
+  route: number;
+  service: number;
+  headsign?: string;
+  shortName?: string;
+}
+
+interface Calendar {
+  /** Bit n is set when the service runs on weekday n (0 = Sunday) */
+  days: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Scheduled timetable loaded from a GTFS zip (e.g. the VBB feed), used when
+ * the upstream API is down. All results are scheduled times only.
+ */
+export class GtfsTimetable implements TimetableSource {
+  readonly name: string;
+  private filePath: string;
+  private loading?: Promise<void>;
+
+  private stops: StopRecord[] = [];
+  private stopIndex = new Map<string, number>();
+  private children = new Map<number, number[]>();
+  private routes: RouteRecord[] = [];
+  private agencies = new Map<string, string>();
+  private trips: TripRecord[] = [];
+  private tripIndex = new Map<string, number>();
+  private calendars: Array<Calendar | undefined> = [];
+  private exceptions = new Map<number, Map<number, number>>();
+
+  private stopTimeTrip = new IntColumn();
+  private stopTimeStop = new IntColumn();
+  private stopTimeArrival = new IntColumn();
+  private stopTimeDeparture = new IntColumn();
+  private stopTimeSequence = new IntColumn();
+  private byStop?: RowIndex;
+  /** Stop time rows of each trip, in stop sequence order */
+  private byTrip?: RowIndex;
+
+  private productsCache = new Map<number, Products>();
+  private lineCache = new Map<number, Line>();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.name = `GTFS timetable ${filePath}`;
+  }
+
+  /**
+   * Load and index the feed. Safe to call repeatedly, the feed is loaded once.
+   */
+  load(): Promise<void> {
+    this.loading ??= this.loadFeed();
+    return this.loading;
+  }
+
+  async searchStops(query: string, results: number): Promise<Location[]> {
+    await this.load();
+    const needle = normalizeName(query.trim());
+
+    const matches: Array<{ index: number; score: number }> = [];
+    this.stops.forEach((stop, index) => {
+      if (stop.parent >= 0) return;
+      const name = normalizeName(stop.name);
+      const position = name.indexOf(needle);
+      if (position < 0) return;
+      const score = name === needle ? 0 : position === 0 ? 1 : /[\s(/-]/.test(name[position - 1]) ? 2 : 3;
+      matches.push({ index, score });
+    });
+
+    return matches
+      .sort((a, b) => a.score - b.score || this.stops[a.index].name.length - this.stops[b.index].name.length)
+      .slice(0, results)
+      .map(match => this.toStop(match.index));
+  }
+
+  async nearbyStops(latitude: number, longitude: number, distance: number, results: number): Promise<Location[]> {
+    await this.load();
+    const origin = { latitude, longitude };
+
+    return this.stops
+      .map((stop, index) => ({ index, distance: stop.parent >= 0 ? Infinity : distanceBetween(origin, stop) }))
+      .filter(candidate => candidate.distance <= distance)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, results)
+      .map(candidate => ({ ...this.toStop(candidate.index), distance: Math.round(candidate.distance) }));
+  }
+
+  async stop(stopId: string): Promise<Stop> {
+    await this.load();
+    return this.toStop(this.stopIndexOf(stopId));
+  }
+
+  async departures(stopId: string, query: BoardQuery): Promise<Departure[]> {
+    await this.load();
+    return this.board(stopId, query, 'departure');
+  }
+
+  async arrivals(stopId: string, query: BoardQuery): Promise<Arrival[]> {
+    await this.load();
+    return this.board(stopId, query, 'arrival');
+  }
+
+  async trip(tripId: string): Promise<Trip> {
+    await this.load();
+    const trip = this.tripIndex.get(tripId);
+    if (trip === undefined) {
+      throw new NotFoundError(`Trip ${tripId} not found in the offline timetable`);
+    }
+
+    // The trip ID does not carry a date, so use the next day the trip runs on
+    const today = berlinDate(Date.now());
+    let date = today;
+    for (let days = 0; days < 8; days++) {
+      if (this.runsOn(this.trips[trip].service, addDays(today, days))) {
+        date = addDays(today, days);
+        break;
+      }
+    }
+
+    const start = serviceDayStart(date);
+    const rows = this.tripRows(trip);
+    const stopovers: Stopover[] = rows.map((row, position) => {
+      const arrival = this.stopTimeArrival.get(row);
+      const departure = this.stopTimeDeparture.get(row);
+      const arrivalTime = position > 0 && arrival >= 0 ? toBerlinIso(start + arrival * 1000) : undefined;
+      const departureTime = position < rows.length - 1 && departure >= 0 ? toBerlinIso(start + departure * 1000) : undefined;
+      const stop = this.stopTimeStop.get(row);
+      return {
+        stop: this.toStop(stop),
+        arrival: arrivalTime,
+        plannedArrival: arrivalTime,
+        departure: departureTime,
+        plannedDeparture: departureTime,
+        platform: this.stops[stop].platform,
+        plannedPlatform: this.stops[stop].platform
+      };
+    });
+
+    const first = stopovers[0];
+    const last = stopovers[stopovers.length - 1];
+    return {
+      id: tripId,
+      origin: first?.stop,
+      destination: last?.stop,
+      departure: first?.departure,
+      plannedDeparture: first?.plannedDeparture,
+      arrival: last?.arrival,
+      plannedArrival: last?.plannedArrival,
+      line: this.lineOf(this.trips[trip].route, this.trips[trip].shortName),
+      direction: this.trips[trip].headsign,
+      stopovers,
+      scheduledOnly: true
+    };
+  }
+
+  private board(stopId: string, query: BoardQuery, kind: 'departure' | 'arrival'): Departure[] {
+    const stops = this.stopGroup(this.stopIndexOf(stopId));
+    const from = query.when ? new Date(query.when).getTime() : Date.now();
+    const until = from + query.duration * 60 * 1000;
+    const towards = query.direction ? new Set(this.stopGroup(this.stopIndexOf(query.direction))) : undefined;
+    const found: Array<{ time: number; row: number }> = [];
+
+    // Trips of the previous service day may still run after midnight
+    for (let date = addDays(berlinDate(from), -1); date <= berlinDate(until); date = addDays(date, 1)) {
+      const start = serviceDayStart(date);
+
+      stops.forEach(stop => {
+        for (let i = this.byStop!.offsets[stop]; i < this.byStop!.offsets[stop + 1]; i++) {
+          const row = this.byStop!.rows[i];
+          const seconds = kind === 'departure' ? this.stopTimeDeparture.get(row) : this.stopTimeArrival.get(row);
+          const time = start + seconds * 1000;
+          if (seconds < 0 || time < from || time > until) continue;
+
+          const trip = this.stopTimeTrip.get(row);
+          if (!this.runsOn(this.trips[trip].service, date)) continue;
+
+          // No departures at the last stop and no arrivals at the first
+          if (row === (kind === 'departure' ? this.lastRow(trip) : this.firstRow(trip))) continue;
+          if (towards && !this.callsAtLater(trip, row, towards)) continue;
+
+          found.push({ time, row });
+        }
+      });
+    }
+
+    return found
+      .sort((a, b) => a.time - b.time)
+      .map(({ time, row }) => {
+        const trip = this.trips[this.stopTimeTrip.get(row)];
+        const stop = this.stopTimeStop.get(row);
+        const when = toBerlinIso(time);
+        return {
+          tripId: trip.id,
+          stop: this.toStop(stop),
+          when,
+          plannedWhen: when,
+          platform: this.stops[stop].platform,
+          plannedPlatform: this.stops[stop].platform,
+          direction: trip.headsign,
+          provenance: kind === 'arrival' ? this.stops[this.stopTimeStop.get(this.firstRow(this.stopTimeTrip.get(row)))].name : undefined,
+          line: this.lineOf(trip.route, trip.shortName),
+          scheduledOnly: true
+        };
+      });
+  }
+
+  private stopIndexOf(stopId: string): number {
+    const index = this.stopIndex.get(stopId);
+    if (index === undefined) {
+      throw new NotFoundError(`Stop ${stopId} not found in the offline timetable`);
+    }
+    return index;
+  }
+
+  /**
+   * A stop together with its platforms
+   */
+  private stopGroup(index: number): number[] {
+    return [index, ...(this.children.get(index) ?? [])];
+  }
+
+  private tripRows(trip: number): number[] {
+    return Array.from(this.byTrip!.rows.subarray(this.byTrip!.offsets[trip], this.byTrip!.offsets[trip + 1]));
+  }
+
+  /**
+   * Whether the trip calls at one of the stops after the given row
+   */
+  private callsAtLater(trip: number, row: number, stops: Set<number>): boolean {
+    const rows = this.tripRows(trip);
+    return rows.slice(rows.indexOf(row) + 1).some(later => stops.has(this.stopTimeStop.get(later)));
+  }
+
+  private firstRow(trip: number): number {
+    return this.byTrip!.rows[this.byTrip!.offsets[trip]];
+  }
+
+  private lastRow(trip: number): number {
+    return this.byTrip!.rows[this.byTrip!.offsets[trip + 1] - 1];
+  }
+
+  private runsOn(service: number, date: number): boolean {
+    const exception = this.exceptions.get(service)?.get(date);
+    if (exception !== undefined) {
+      return exception === 1;
+    }
+    const calendar = this.calendars[service];
+    return !!calendar && date >= calendar.start && date <= calendar.end && (calendar.days & (1 << weekday(date))) !== 0;
+  }
+
+  private toStop(index: number): Stop {
+    const stop = this.stops[index];
+    return {
+      type: stop.parent < 0 && this.children.has(index) ? 'station' : 'stop',
+      id: stop.publicId,
+      name: stop.name,
+      latitude: stop.latitude,
+      longitude: stop.longitude,
+      location: { type: 'location', latitude: stop.latitude, longitude: stop.longitude },
+      products: this.productsAt(index),
+      ...(stop.parent >= 0 ? { station: this.toStop(stop.parent) } : {})
+    };
+  }
+
+  /**
+   * Products of the routes serving a stop or its platforms
+   */
+  private productsAt(index: number): Products {
+    let products = this.productsCache.get(index);
+    if (!products) {
+      const found: Products = {};
+      this.stopGroup(index).forEach(stop => {
+        for (let i = this.byStop!.offsets[stop]; i < this.byStop!.offsets[stop + 1]; i++) {
+          found[this.lineOf(this.trips[this.stopTimeTrip.get(this.byStop!.rows[i])].route).product] = true;
+        }
+      });
+      products = found;
+      this.productsCache.set(index, products);
+    }
+    return products;
+  }
+
+  private lineOf(route: number, fahrtNr?: string): Line {
+    let line = this.lineCache.get(route);
+    if (!line) {
+      const record = this.routes[route];
+      const product = productOf(record.type, record.name);
+      line = {
+        type: 'line',
+        id: record.id,
+        name: record.name,
+        public: true,
+        mode: product === 'bus' ? 'bus' : product === 'ferry' ? 'watercraft' : 'train',
+        product,
+        ...(record.agency
+          ? { operator: { type: 'operator', id: record.agency, name: this.agencies.get(record.agency) ?? record.agency } }
+          : {})
+      };
+      this.lineCache.set(route, line);
+    }
+    return fahrtNr ? { ...line, fahrtNr } : line;
+  }
+
+  private async loadFeed(): Promise<void> {
+    const started = Date.now();
+    const entries = await readZipEntries(this.filePath);
+    const entry = (name: string) =>
+      entries.get(name) ?? Array.from(entries.values()).find(candidate => candidate.name.endsWith(`/${name}`));
+    const required = (name: string) => {
+      const found = entry(name);
+      if (!found) throw new Error(`${this.filePath} has no ${name}`);
+      return found;
+    };
+
+    const agencyEntry = entry('agency.txt');
+    if (agencyEntry) {
+      await readCsv(this.filePath, agencyEntry, row => {
+        this.agencies.set(row('agency_id'), row('agency_name'));
+      });
+    }
+
+    const parents: string[] = [];
+    await readCsv(this.filePath, required('stops.txt'), row => {
+      const gtfsId = row('stop_id');
+      this.stopIndex.set(gtfsId, this.stops.length);
+      parents.push(row('parent_station'));
+      this.stops.push({
+        gtfsId,
+        publicId: gtfsId,
+        name: row('stop_name'),
+        latitude: Number(row('stop_lat')),
+        longitude: Number(row('stop_lon')),
+        parent: -1,
+        platform: row('platform_code') || undefined
+      });
+    });
+
+    this.stops.forEach((stop, index) => {
+      const parent = parents[index] ? this.stopIndex.get(parents[index]) : undefined;
+      if (parent !== undefined) {
+        stop.parent = parent;
+        this.children.set(parent, [...(this.children.get(parent) ?? []), index]);
+      }
+    });
+
+    // Make stations reachable by their HAFAS ID as used by the upstream API
+    this.stops.forEach((stop, index) => {
+      const hafasId = IFOPT_PATTERN.exec(stop.gtfsId)?.[1];
+      if (hafasId && stop.parent < 0 && !this.stopIndex.has(hafasId)) {
+        this.stopIndex.set(hafasId, index);
+        stop.publicId = hafasId;
+      }
+    });
+
+    const routeIndex = new Map<string, number>();
+    await readCsv(this.filePath, required('routes.txt'), row => {
+      routeIndex.set(row('route_id'), this.routes.length);
+      this.routes.push({
+        id: row('route_id'),
+        name: row('route_short_name') || row('route_long_name'),
+        type: Number(row('route_type')),
+        agency: row('agency_id')
+      });
+    });
+
+    const serviceIndex = new Map<string, number>();
+    const service = (id: string) => {
+      let index = serviceIndex.get(id);
+      if (index === undefined) {
+        index = serviceIndex.size;
+        serviceIndex.set(id, index);
+      }
+      return index;
+    };
+
+    const calendarEntry = entry('calendar.txt');
+    if (calendarEntry) {
+      const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+      await readCsv(this.filePath, calendarEntry, row => {
+        this.calendars[service(row('service_id'))] = {
+          days: weekdays.reduce((days, day, index) => row(day) === '1' ? days | (1 << index) : days, 0),
+          start: Number(row('start_date')),
+          end: Number(row('end_date'))
+        };
+      });
+    }
+
+    const calendarDatesEntry = entry('calendar_dates.txt');
+    if (calendarDatesEntry) {
+      await readCsv(this.filePath, calendarDatesEntry, row => {
+        const index = service(row('service_id'));
+        let dates = this.exceptions.get(index);
+        if (!dates) {
+          dates = new Map();
+          this.exceptions.set(index, dates);
+        }
+        dates.set(Number(row('date')), Number(row('exception_type')));
+      });
+    }
+
+    await readCsv(this.filePath, required('trips.txt'), row => {
+      const route = routeIndex.get(row('route_id'));
+      if (route === undefined) return;
+      this.tripIndex.set(row('trip_id'), this.trips.length);
+      this.trips.push({
+        id: row('trip_id'),
+        route,
+        service: service(row('service_id')),
+        headsign: row('trip_headsign') || undefined,
+        shortName: row('trip_short_name') || undefined
+      });
+    });
+
+    await readCsv(this.filePath, required('stop_times.txt'), row => {
+      const trip = this.tripIndex.get(row('trip_id'));
+      const stop = this.stopIndex.get(row('stop_id'));
+      if (trip === undefined || stop === undefined) return;
+      const arrival = parseTime(row('arrival_time'));
+      const departure = parseTime(row('departure_time'));
+      this.stopTimeTrip.push(trip);
+      this.stopTimeStop.push(stop);
+      this.stopTimeArrival.push(arrival >= 0 ? arrival : departure);
+      this.stopTimeDeparture.push(departure >= 0 ? departure : arrival);
+      this.stopTimeSequence.push(Number(row('stop_sequence')));
+    });
+
+    this.byStop = buildIndex(this.stopTimeStop, this.stops.length);
+    const byTrip = buildIndex(this.stopTimeTrip, this.trips.length);
+    for (let trip = 0; trip < this.trips.length; trip++) {
+      byTrip.rows.subarray(byTrip.offsets[trip], byTrip.offsets[trip + 1])
+        .sort((a, b) => this.stopTimeSequence.get(a) - this.stopTimeSequence.get(b));
+    }
+    this.byTrip = byTrip;
+
+    console.error(
+      `Loaded ${this.name}: ${this.stops.length} stops, ${this.trips.length} trips, ` +
+      `${this.stopTimeTrip.length} stop times in ${((Date.now() - started) / 1000).toFixed(1)}s`
+    );
+  }
+}
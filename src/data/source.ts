@@ -0,0 +1,69 @@
+import { Arrival, Departure, Location, Stop, Trip } from '../types/bvg.js';
+import { config } from '../utils/config.js';
+import { UpstreamUnavailableError } from '../utils/errors.js';
+
+/**
+ * Time window of a departure or arrival board
+ */
+export interface BoardQuery {
+  /** ISO date and time, defaults to now */
+  when?: string;
+  /** Window length in minutes */
+  duration: number;
+  /** Only include trips calling at this stop ID later on */
+  direction?: string;
+}
+
+/**
+ * A data source the tool executors can fall back to when the
+ * upstream API is unavailable
+ */
+export interface TimetableSource {
+  /** Human-readable name used in logs */
+  readonly name: string;
+  searchStops(query: string, results: number): Promise<Location[]>;
+  nearbyStops(latitude: number, longitude: number, distance: number, results: number): Promise<Location[]>;
+  stop(stopId: string): Promise<Stop>;
+  departures(stopId: string, query: BoardQuery): Promise<Departure[]>;
+  arrivals(stopId: string, query: BoardQuery): Promise<Arrival[]>;
+  trip(tripId: string): Promise<Trip>;
+}
+
+let fallbackSource: { source: TimetableSource; network: string } | undefined;
+
+/**
+ * Set or clear the source used when the upstream API of a network is
+ * unavailable. A timetable only covers the network it was loaded for.
+ */
+export function setFallbackSource(source: TimetableSource | undefined, network = config.defaultNetwork): void {
+  fallbackSource = source ? { source, network } : undefined;
+}
+
+/**
+ * Source used for a network, the default network if none is given
+ */
+export function getFallbackSource(network = config.defaultNetwork): TimetableSource | undefined {
+  return fallbackSource?.network === network ? fallbackSource.source : undefined;
+}
+
+/**
+ * Run an upstream request and answer from the fallback source instead if
+ * the upstream is unavailable (after the client's own retries). Requests to
+ * networks the fallback was not loaded for are never answered from it.
+ */
+export async function withFallback<T>(
+  upstream: () => Promise<T>,
+  fallback: (source: TimetableSource) => Promise<T>,
+  network?: string
+): Promise<T> {
+  try {
+    return await upstream();
+  } catch (error) {
+    const source = getFallbackSource(network);
+    if (!source || !(error instanceof UpstreamUnavailableError)) {
+      throw error;
+    }
+    console.error(`BVG API unavailable (${error.message}), answering from ${source.name}`);
+    return fallback(source);
+  }
+}
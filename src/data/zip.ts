@@ -0,0 +1,120 @@
+import { createReadStream } from 'node:fs';
+import { open } from 'node:fs/promises';
+import { pipeline, Readable } from 'node:stream';
+import { createInflateRaw } from 'node:zlib';
+
+/**
+ * A file inside a zip archive
+ */
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * The end of central directory record is at most 22 bytes plus a 64KB comment
+ */
+const MAX_EOCD_SEARCH = 22 + 0xffff;
+
+/**
+ * List the entries of a zip archive. Only the features used by GTFS feeds
+ * are supported: stored or deflated entries without zip64 extensions.
+ */
+export async function readZipEntries(filePath: string): Promise<Map<string, ZipEntry>> {
+  const file = await open(filePath, 'r');
+
+  try {
+    const { size } = await file.stat();
+    const tailLength = Math.min(size, MAX_EOCD_SEARCH);
+    const tail = Buffer.alloc(tailLength);
+    await file.read(tail, 0, tailLength, size - tailLength);
+
+    let eocd = -1;
+    for (let i = tailLength - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new Error(`${filePath} is not a zip archive`);
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+      throw new Error(`${filePath} uses zip64, which is not supported`);
+    }
+
+    const directory = Buffer.alloc(directorySize);
+    await file.read(directory, 0, directorySize, directoryOffset);
+
+    const entries = new Map<string, ZipEntry>();
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error(`Corrupt central directory in ${filePath}`);
+      }
+
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      entries.set(name, {
+        name,
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        localHeaderOffset: directory.readUInt32LE(offset + 42)
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Stream the uncompressed contents of a zip entry
+ */
+export async function openZipEntry(filePath: string, entry: ZipEntry): Promise<Readable> {
+  const file = await open(filePath, 'r');
+  const header = Buffer.alloc(30);
+
+  try {
+    await file.read(header, 0, 30, entry.localHeaderOffset);
+  } finally {
+    await file.close();
+  }
+
+  if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt local header for ${entry.name}`);
+  }
+
+  const start = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  if (entry.compressedSize === 0) {
+    return Readable.from([]);
+  }
+
+  const raw = createReadStream(filePath, { start, end: start + entry.compressedSize - 1 });
+
+  switch (entry.method) {
+    case 0:
+      return raw;
+    case 8:
+      // pipeline forwards read errors to the inflated stream, pipe() would drop them
+      return pipeline(raw, createInflateRaw(), () => {});
+    default:
+      raw.destroy();
+      throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+}
@@ -0,0 +1,189 @@
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Options for the Streamable HTTP server
+ */
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  /** Path the MCP endpoint is served on */
+  path: string;
+  /** Close sessions without requests for this long (default: 30 minutes) */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * A session and what is needed to tell whether it is still in use
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  lastActivity: number;
+  /** Requests still being answered, including open event streams */
+  openRequests: number;
+}
+
+/**
+ * Maximum accepted request body size
+ */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * The request body exceeds MAX_BODY_BYTES
+ */
+class PayloadTooLargeError extends Error {}
+
+/**
+ * Start an HTTP server exposing the MCP Streamable HTTP transport.
+ * Every session gets its own MCP server instance from the factory.
+ * Clients that go away without a DELETE leave their session behind, so
+ * sessions without open requests are closed after the idle timeout.
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpServerOptions
+): Promise<HttpServer> {
+  const sessions = new Map<string, Session>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  /**
+   * Count a request towards its session's activity until the response closes
+   */
+  const track = (session: Session, res: ServerResponse) => {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+      if (url.pathname === '/health') {
+        sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+        return;
+      }
+
+      if (url.pathname !== options.path) {
+        sendJson(res, 404, { error: 'Not found' });
+        return;
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+      if (existing) {
+        track(existing, res);
+        const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (req.method !== 'POST') {
+        sendJsonRpcError(res, 400, 'Bad Request: missing or unknown session ID');
+        return;
+      }
+
+      const body = await readJsonBody(req);
+      if (sessionId !== undefined || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, sessionId !== undefined ? 404 : 400, 'Bad Request: missing or unknown session ID');
+        return;
+      }
+
+      const server = createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          const session: Session = { transport, server, lastActivity: Date.now(), openRequests: 0 };
+          sessions.set(id, session);
+          track(session, res);
+        }
+      });
+
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        const status = error instanceof PayloadTooLargeError ? 413 : error instanceof SyntaxError ? 400 : 500;
+        sendJsonRpcError(res, status, error instanceof Error ? error.message : 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    sessions.forEach((session, id) => {
+      if (session.openRequests === 0 && now - session.lastActivity >= idleTimeoutMs) {
+        sessions.delete(id);
+        session.server.close().catch(() => undefined);
+      }
+    });
+  }, Math.min(idleTimeoutMs, 60 * 1000));
+  sweep.unref();
+
+  httpServer.on('close', () => {
+    clearInterval(sweep);
+    sessions.forEach(({ server }) => {
+      server.close().catch(() => undefined);
+    });
+    sessions.clear();
+  });
+
+  return httpServer;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new PayloadTooLargeError(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  });
+}
@@ -9,45 +9,54 @@ import {
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 
-// Import tools
-import {
-  locationsSearchTool,
-  executeLocationsSearch,
-  LocationsSearchSchema
-} from './tools/locations.js';
-import {
-  nearbyLocationsTool,
-  executeNearbyLocations,
-  NearbyLocationsSchema
-} from './tools/nearby.js';
-import {
-  stopDetailsTool,
-  stopDeparturesTool,
-  stopArrivalsTool,
-  executeStopDetails,
-  executeStopDepartures,
-  executeStopArrivals,
-  StopDetailsSchema,
-  StopDeparturesSchema
-} from './tools/stops.js';
-import {
-  journeyPlanTool,
-  executeJourneyPlan,
-  JourneyPlanSchema
-} from './tools/journeys.js';
-import {
-  tripDetailsTool,
-  radarTool,
-  executeTripDetails,
-  executeRadar,
-  TripDetailsSchema,
-  RadarSchema
-} from './tools/additional.js';
+import { allTools } from './tools/index.js';
+import { RegisteredTool, selectTools } from './utils/registry.js';
+import { InvalidRequestError, toMcpError } from './utils/errors.js';
+import { bvgApi, BvgClient, networkClients } from './utils/api.js';
+import { config } from './utils/config.js';
+import { startHttpServer } from './http.js';
+import { registerResources } from './resources.js';
+import { registerPrompts } from './prompts.js';
+import { GtfsTimetable } from './data/gtfs.js';
+import { setFallbackSource } from './data/source.js';
+
+/**
+ * Options for creating the MCP server
+ */
+export interface ServerOptions {
+  /** Client of the default network, defaults to the shared instance */
+  client?: BvgClient;
+  /** Clients by network name, defaults to one per configured network */
+  networks?: Map<string, BvgClient>;
+  /** Tools to offer before the configured filter applies, defaults to all tools */
+  tools?: RegisteredTool[];
+}
 
 /**
  * Create and configure the MCP server
  */
-function createServer(): Server {
+export function createServer(options: ServerOptions = {}): Server {
+  const networks = options.networks ?? networkClients;
+  const defaultClient = options.client ?? networks.get(config.defaultNetwork) ?? bvgApi;
+
+  /**
+   * Client for the network a tool call names, the default network otherwise
+   */
+  const clientFor = (network?: string): BvgClient => {
+    if (!network || network === config.defaultNetwork) {
+      return defaultClient;
+    }
+    const client = networks.get(network);
+    if (!client) {
+      throw new InvalidRequestError(
+        `Unknown network "${network}". Configured networks: ${Array.from(networks.keys()).join(', ')}`
+      );
+    }
+    return client;
+  };
+
+  const tools = selectTools(options.tools ?? allTools, config.tools);
+
   const server = new Server(
     {
       name: 'mcp-bvg-server',
@@ -56,6 +65,8 @@ function createServer(): Server {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
+        prompts: {},
       },
     }
   );
@@ -65,16 +76,7 @@ function createServer(): Server {
    */
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: [
-        locationsSearchTool,
-        nearbyLocationsTool,
-        stopDetailsTool,
-        stopDeparturesTool,
-        stopArrivalsTool,
-        journeyPlanTool,
-        tripDetailsTool,
-        radarTool,
-      ],
+      tools: tools.map(tool => tool.definition),
     };
   });
 
@@ -85,136 +87,120 @@ function createServer(): Server {
     const { name, arguments: args } = request.params;
 
     try {
-      switch (name) {
-        case 'bvg_locations_search': {
-          const params = LocationsSearchSchema.parse(args);
-          const result = await executeLocationsSearch(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        case 'bvg_locations_nearby': {
-          const params = NearbyLocationsSchema.parse(args);
-          const result = await executeNearbyLocations(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        case 'bvg_stop_details': {
-          const params = StopDetailsSchema.parse(args);
-          const result = await executeStopDetails(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        case 'bvg_stop_departures': {
-          const params = StopDeparturesSchema.parse(args);
-          const result = await executeStopDepartures(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        case 'bvg_stop_arrivals': {
-          const params = StopDeparturesSchema.parse(args);
-          const result = await executeStopArrivals(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        case 'bvg_journey_plan': {
-          const params = JourneyPlanSchema.parse(args);
-          const result = await executeJourneyPlan(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        case 'bvg_trip_details': {
-          const params = TripDetailsSchema.parse(args);
-          const result = await executeTripDetails(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        case 'bvg_radar': {
-          const params = RadarSchema.parse(args);
-          const result = await executeRadar(params);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(result, null, 2),
-              },
-            ],
-          };
-        }
-
-        default:
-          throw new McpError(
-            ErrorCode.MethodNotFound,
-            `Unknown tool: ${name}`
-          );
-      }
-    } catch (error) {
-      if (error instanceof McpError) {
-        throw error;
+      const tool = tools.find(candidate => candidate.name === name);
+      if (!tool) {
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
       }
 
-      throw new McpError(
-        ErrorCode.InternalError,
-        `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
-      );
+      return await tool.run(args, clientFor);
+    } catch (error) {
+      throw toMcpError(error);
     }
   });
 
+  registerResources(server, config.pollIntervalMs, defaultClient);
+  registerPrompts(server);
+
   return server;
 }
 
+/**
+ * Transport selection from CLI flags and environment variables
+ */
+interface TransportConfig {
+  transport: 'stdio' | 'http';
+  port: number;
+  host: string;
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * Read the transport configuration. CLI flags take precedence over
+ * MCP_TRANSPORT, MCP_HTTP_PORT and MCP_HTTP_HOST. MCP_HTTP_SESSION_TIMEOUT_MS
+ * sets the idle timeout of HTTP sessions.
+ */
+function parseTransportConfig(argv: string[]): TransportConfig {
+  const transportConfig: TransportConfig = {
+    transport: process.env.MCP_TRANSPORT === 'http' ? 'http' : 'stdio',
+    port: Number(process.env.MCP_HTTP_PORT ?? 3000),
+    host: process.env.MCP_HTTP_HOST ?? '127.0.0.1',
+    sessionIdleTimeoutMs: process.env.MCP_HTTP_SESSION_TIMEOUT_MS ? Number(process.env.MCP_HTTP_SESSION_TIMEOUT_MS) : undefined,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--http') {
+      transportConfig.transport = 'http';
+    } else if (arg === '--stdio') {
+      transportConfig.transport = 'stdio';
+    } else if (arg === '--port') {
+      transportConfig.port = Number(argv[++i]);
+    } else if (arg === '--host') {
+      transportConfig.host = argv[++i];
+    }
+  }
+
+  if (!Number.isInteger(transportConfig.port) || transportConfig.port < 0 || transportConfig.port > 65535) {
+    throw new Error(`Invalid HTTP port: ${transportConfig.port}`);
+  }
+  if (transportConfig.sessionIdleTimeoutMs !== undefined && !(transportConfig.sessionIdleTimeoutMs > 0)) {
+    throw new Error(`Invalid HTTP session timeout: ${process.env.MCP_HTTP_SESSION_TIMEOUT_MS}`);
+  }
+
+  return transportConfig;
+}
+
+/**
+ * Use a local GTFS feed as fallback when BVG_GTFS_FILE is set. It covers the
+ * network named by BVG_GTFS_NETWORK, the default network otherwise. The feed
+ * is indexed in the background so the first outage does not wait for it.
+ */
+function configureFallback(): void {
+  const gtfsFile = process.env.BVG_GTFS_FILE;
+  if (!gtfsFile) {
+    return;
+  }
+
+  const network = process.env.BVG_GTFS_NETWORK || config.defaultNetwork;
+  if (!config.networks.some(candidate => candidate.name === network)) {
+    throw new Error(`Unknown BVG_GTFS_NETWORK: ${network}`);
+  }
+
+  const timetable = new GtfsTimetable(gtfsFile);
+  setFallbackSource(timetable, network);
+  timetable.load().catch(error => {
+    console.error(`Failed to load GTFS timetable ${gtfsFile}:`, error);
+    setFallbackSource(undefined);
+  });
+}
+
 /**
  * Main function to start the server
  */
 async function main() {
+  const transportConfig = parseTransportConfig(process.argv.slice(2));
+  configureFallback();
+
+  if (transportConfig.transport === 'http') {
+    const httpServer = await startHttpServer(createServer, {
+      port: transportConfig.port,
+      host: transportConfig.host,
+      path: '/mcp',
+      sessionIdleTimeoutMs: transportConfig.sessionIdleTimeoutMs,
+    });
+
+    process.on('SIGINT', () => {
+      httpServer.close(() => process.exit(0));
+      httpServer.closeAllConnections();
+    });
+
+    console.error(`BVG MCP Server running on http://${transportConfig.host}:${transportConfig.port}/mcp`);
+    return;
+  }
+
   const server = createServer();
   const transport = new StdioServerTransport();
 
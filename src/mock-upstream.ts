@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+
+import { createServer as createHttpServer, Server as HttpServer, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { FixtureStore } from './utils/fixtures.js';
+
+/**
+ * Options for the stand-in upstream server
+ */
+export interface MockUpstreamOptions {
+  /** Directory with recorded fixtures */
+  fixturesDir: string;
+  /** Port to listen on, 0 picks a free port (default: 0) */
+  port?: number;
+  host?: string;
+}
+
+/**
+ * Start an HTTP server that answers BVG API requests from recorded fixtures.
+ * Point a `BvgApiClient` at `http://host:port` to run against it. Requests
+ * without a fixture get a 502, which the client reports as upstream unavailable.
+ */
+export async function startMockUpstream(options: MockUpstreamOptions): Promise<HttpServer> {
+  const store = new FixtureStore(options.fixturesDir, 'replay');
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+
+      if (req.method !== 'GET') {
+        sendJson(res, 405, { error: true, msg: `Method ${req.method} not allowed` });
+        return;
+      }
+
+      const fixture = await store.read(url);
+      if (!fixture) {
+        sendJson(res, 502, { error: true, msg: `No fixture recorded for GET ${url.pathname}${url.search}` });
+        return;
+      }
+
+      res.writeHead(fixture.response.status, {
+        'Content-Type': 'application/json',
+        ...fixture.response.headers
+      });
+      res.end(JSON.stringify(fixture.response.body));
+    } catch (error) {
+      sendJson(res, 500, { error: true, msg: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
+
+/**
+ * Base URL of a started mock upstream
+ */
+export function mockUpstreamUrl(httpServer: HttpServer): string {
+  const { address, port } = httpServer.address() as AddressInfo;
+  return `http://${address}:${port}`;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Serve the fixtures in BVG_FIXTURES_DIR (default: test/fixtures) on
+ * MOCK_UPSTREAM_PORT (default: 3001)
+ */
+async function main() {
+  const httpServer = await startMockUpstream({
+    fixturesDir: process.env.BVG_FIXTURES_DIR ?? 'test/fixtures',
+    port: Number(process.env.MOCK_UPSTREAM_PORT ?? 3001),
+    host: process.env.MOCK_UPSTREAM_HOST ?? '127.0.0.1'
+  });
+
+  process.on('SIGINT', () => {
+    httpServer.close(() => process.exit(0));
+  });
+
+  console.error(`Mock BVG upstream serving fixtures on ${mockUpstreamUrl(httpServer)}`);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    console.error('Mock upstream error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,120 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * A prompt template together with the function rendering its text
+ */
+interface PromptTemplate {
+  prompt: Prompt;
+  render: (args: Record<string, string>) => string;
+}
+
+const PROMPTS: PromptTemplate[] = [
+  {
+    prompt: {
+      name: 'commute_check',
+      description: 'Check the best connection for a commute and whether it is affected by delays or disruptions',
+      arguments: [
+        { name: 'from', description: 'Origin: saved place, stop name, address or "latitude,longitude"', required: true },
+        { name: 'to', description: 'Destination: saved place, stop name, address or "latitude,longitude"', required: true },
+        { name: 'arriveBy', description: 'Latest arrival time, e.g. "08:45" or an ISO date and time', required: false },
+      ],
+    },
+    render: ({ from, to, arriveBy }) => [
+      `Check my commute from "${from}" to "${to}"${arriveBy ? `, arriving by ${arriveBy}` : ''}.`,
+      '',
+      'Steps:',
+      `1. Call bvg_journey_plan with from="${from}" and to="${to}"` +
+        (arriveBy ? ` and arrival set to ${arriveBy} as an ISO date and time (today unless stated otherwise)` : '') +
+        ' and format="markdown". Saved places, stop names and addresses are resolved automatically; check the `resolved` section. If the wrong place was picked, use bvg_locations_search to find the right stop ID and plan again with it.',
+      '2. Pick the journey that arrives in time with the fewest transfers. Note delays, cancelled legs and remarks.',
+      '3. Call bvg_disruptions with the line of each public transport leg to find service alerts.',
+      '4. If the first leg departs within the next 15 minutes, call bvg_stop_departures for its departure stop ID to confirm the realtime departure and platform.',
+      '',
+      'Answer with when to leave, the legs with platforms, and any delay or disruption that could make me late. Suggest the next best journey if the first one is at risk.',
+    ].join('\n'),
+  },
+  {
+    prompt: {
+      name: 'departures_near',
+      description: 'Show the next departures at the stops around a location',
+      arguments: [
+        { name: 'coordinates', description: 'Location as "latitude,longitude" or a saved place', required: true },
+        { name: 'products', description: 'Comma-separated products to include, e.g. "subway,tram"', required: false },
+      ],
+    },
+    render: ({ coordinates, products }) => [
+      `Show the next departures near ${coordinates}${products ? ` for ${products}` : ''}.`,
+      '',
+      'Steps:',
+      `1. Call bvg_departure_monitor with coordinates="${coordinates}"` +
+        (products ? ` and products=${JSON.stringify(products.split(',').map(product => product.trim()))}` : '') +
+        ' and format="markdown". It finds the nearest stops and merges their departure boards.',
+      `2. If no stops are found, call bvg_locations_nearby with coordinates="${coordinates}" and a larger distance, then call bvg_stop_departures for the closest stop IDs.`,
+      '',
+      'Answer with a short board grouped by stop, including walking distance, delays and cancellations.',
+    ].join('\n'),
+  },
+  {
+    prompt: {
+      name: 'disruption_briefing',
+      description: 'Summarize current disruptions on a set of lines',
+      arguments: [
+        { name: 'lines', description: 'Comma-separated line names, e.g. "U8, M10, S41"', required: true },
+      ],
+    },
+    render: ({ lines }) => {
+      const names = lines.split(',').map(line => line.trim()).filter(Boolean);
+      return [
+        `Give me a briefing on current disruptions for ${names.join(', ')}.`,
+        '',
+        'Steps:',
+        `1. Call bvg_disruptions once per line (${names.map(name => `line="${name}"`).join(', ')}).`,
+        '2. If a line reports nothing, call bvg_line_info for it and check the departures at one of its stops with bvg_stop_departures for cancellations.',
+        '',
+        'Answer with one section per line, warnings first, including affected stops and validity periods. Say explicitly when a line runs normally.',
+      ].join('\n');
+    },
+  },
+];
+
+/**
+ * Register the transit workflow prompts on a server
+ */
+export function registerPrompts(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS.map(template => template.prompt),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const template = PROMPTS.find(candidate => candidate.prompt.name === name);
+
+    if (!template) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = (template.prompt.arguments ?? [])
+      .filter(argument => argument.required && !args[argument.name]?.trim())
+      .map(argument => argument.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required arguments: ${missing.join(', ')}`);
+    }
+
+    return {
+      description: template.prompt.description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text: template.render(args) },
+        },
+      ],
+    };
+  });
+}
@@ -0,0 +1,198 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Departure, Trip } from './types/bvg.js';
+import { executeStopDepartures, StopDeparturesSchema } from './tools/stops.js';
+import { executeTripDetails, TripDetailsSchema } from './tools/additional.js';
+import { toMcpError } from './utils/errors.js';
+import { bvgApi, BvgClient } from './utils/api.js';
+
+/**
+ * Default interval between upstream polls for subscribed resources
+ */
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+
+const DEPARTURES_URI = /^bvg:\/\/stops\/([^/]+)\/departures$/;
+const TRIP_URI = /^bvg:\/\/trips\/([^/]+)$/;
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'bvg://stops/{stopId}/departures',
+    name: 'Departure board',
+    description: 'Upcoming departures at a stop. Subscribers are notified when delays, platforms or cancellations change.',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'bvg://trips/{tripId}',
+    name: 'Trip',
+    description: 'A trip with its stopovers. Subscribers are notified when delays, platforms or cancellations change.',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Realtime state of a resource, keyed by trip or stop. Only fields whose
+ * change should trigger a notification are included.
+ */
+type Snapshot = Map<string, string>;
+
+interface ResourceData {
+  data: Departure[] | Trip;
+  snapshot: Snapshot;
+}
+
+function realtimeKey(delay?: number | null, platform?: string | null, cancelled?: boolean | null): string {
+  return `${delay ?? ''}|${platform ?? ''}|${cancelled ? 'cancelled' : ''}`;
+}
+
+/**
+ * Fetch a resource and take a snapshot of its realtime fields
+ */
+async function loadResource(uri: string, client: BvgClient): Promise<ResourceData> {
+  const departuresMatch = DEPARTURES_URI.exec(uri);
+  if (departuresMatch) {
+    const stopId = decodeURIComponent(departuresMatch[1]);
+    const departures = await executeStopDepartures(StopDeparturesSchema.parse({ stopId }), client);
+    const snapshot: Snapshot = new Map(departures.map(departure => [
+      departure.tripId,
+      realtimeKey(departure.delay, departure.platform, departure.cancelled)
+    ]));
+    return { data: departures, snapshot };
+  }
+
+  const tripMatch = TRIP_URI.exec(uri);
+  if (tripMatch) {
+    const tripId = decodeURIComponent(tripMatch[1]);
+    const trip = await executeTripDetails(TripDetailsSchema.parse({ tripId }), client);
+    const snapshot: Snapshot = new Map((trip.stopovers ?? []).map((stopover, index) => [
+      stopover.stop?.id ?? String(index),
+      realtimeKey(stopover.arrivalDelay ?? stopover.departureDelay, stopover.platform, stopover.cancelled)
+    ]));
+    snapshot.set('trip', realtimeKey(trip.departureDelay, undefined, trip.cancelled));
+    return { data: trip, snapshot };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+}
+
+/**
+ * Whether an entry present in both snapshots changed. Departures entering
+ * or leaving the board do not count as a change.
+ */
+export function snapshotChanged(previous: Snapshot, current: Snapshot): boolean {
+  for (const [key, value] of current) {
+    const before = previous.get(key);
+    if (before !== undefined && before !== value) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Register the departure board and trip resources on a server. Subscribed
+ * resources are polled upstream and `notifications/resources/updated` is sent
+ * when their realtime data changes. Polling stops when the server closes.
+ */
+export function registerResources(
+  server: Server,
+  pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+  client: BvgClient = bvgApi
+): void {
+  const subscriptions = new Map<string, { timer?: NodeJS.Timeout; snapshot: Snapshot }>();
+
+  const poll = async (uri: string) => {
+    const subscription = subscriptions.get(uri);
+    if (!subscription) return;
+
+    try {
+      const { snapshot } = await loadResource(uri, client);
+      const changed = snapshotChanged(subscription.snapshot, snapshot);
+      subscription.snapshot = snapshot;
+      if (changed) {
+        await server.sendResourceUpdated({ uri });
+      }
+    } catch (error) {
+      console.error(`Failed to poll ${uri}:`, error);
+    }
+  };
+
+  // The next poll is scheduled once the previous one settled, so slow
+  // upstream responses never pile up
+  const schedule = (uri: string) => {
+    const subscription = subscriptions.get(uri);
+    if (!subscription) return;
+
+    subscription.timer = setTimeout(async () => {
+      await poll(uri);
+      if (subscriptions.get(uri) === subscription) {
+        schedule(uri);
+      }
+    }, pollIntervalMs);
+  };
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({ resources: [] }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    try {
+      const { data } = await loadResource(uri, client);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(data, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (subscriptions.has(uri)) {
+      return {};
+    }
+
+    try {
+      const { snapshot } = await loadResource(uri, client);
+      if (!subscriptions.has(uri)) {
+        subscriptions.set(uri, { snapshot });
+        schedule(uri);
+      }
+      return {};
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const subscription = subscriptions.get(request.params.uri);
+    if (subscription) {
+      clearTimeout(subscription.timer);
+      subscriptions.delete(request.params.uri);
+    }
+    return {};
+  });
+
+  const onclose = server.onclose;
+  server.onclose = () => {
+    subscriptions.forEach(({ timer }) => clearTimeout(timer));
+    subscriptions.clear();
+    onclose?.();
+  };
+}
@@ -1,8 +1,19 @@
 import { z } from 'zod';
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { Trip, RadarResult } from '../types/bvg.js';
-import { bvgApi } from '../utils/api.js';
-import { createMcpTool } from '../utils/schema.js';
+import { Trip, RadarResult, TripsSearchResult, Movement, TrackSample, VehicleTrack } from '../types/bvg.js';
+import {
+  TripSchema,
+  RadarResultSchema,
+  RadarOutputSchema,
+  TripsSearchOutputSchema,
+  ProductSchema
+} from '../types/schemas.js';
+import { bvgApi, BvgClient, distanceBetween, productFilterParams, sleep } from '../utils/api.js';
+import { defineTool, READ_ONLY_UPSTREAM } from '../utils/registry.js';
+import { OutputFormatSchema, upcomingStopover, tripFormatter, radarFormatter, tripsSearchFormatter } from '../utils/format.js';
+import { LanguageSchema, NetworkSchema } from '../utils/config.js';
+import { InvalidRequestError, NotFoundError, wrapError } from '../utils/errors.js';
+import { validateResponse } from '../utils/validation.js';
+import { withFallback } from '../data/source.js';
 
 /**
  * Schema for trip details parameters
@@ -12,11 +23,23 @@ export const TripDetailsSchema = z.object({
   lineName: z.string().optional().describe('Line name for additional context'),
   stopovers: z.boolean().default(true).describe('Include stopovers for the trip'),
   polyline: z.boolean().default(false).describe('Include geographic polyline'),
-  language: z.enum(['de', 'en']).default('en').describe('Language for results')
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
 });
 
 export type TripDetailsParams = z.infer<typeof TripDetailsSchema>;
 
+/**
+ * Most vehicles the upstream returns per radar request
+ */
+const RADAR_MAX_RESULTS = 256;
+
+/**
+ * Longest time track mode may poll for, well below common client timeouts
+ */
+const MAX_TRACK_SECONDS = 45;
+
 /**
  * Schema for radar search parameters
  */
@@ -25,37 +48,89 @@ export const RadarSchema = z.object({
   west: z.number().describe('Western boundary longitude'),
   south: z.number().describe('Southern boundary latitude'),
   east: z.number().describe('Eastern boundary longitude'),
-  results: z.number().min(1).max(256).default(256).describe('Maximum number of vehicles to return'),
-  duration: z.number().min(1).max(30).default(30).describe('Compute frames for the next n seconds'),
-  frames: z.number().min(1).max(20).default(3).describe('Number of frames to compute'),
+  results: z.number().min(1).max(RADAR_MAX_RESULTS).default(RADAR_MAX_RESULTS).describe('Maximum number of vehicles to return'),
+  duration: z.number().min(1).max(30).default(30).describe('Time span in seconds covered by the movement frames'),
+  frames: z.number().min(1).max(20).default(3).describe('Number of movement frames, as computed by the upstream'),
   polylines: z.boolean().default(true).describe('Include polylines for vehicle movements'),
-  language: z.enum(['de', 'en']).default('en').describe('Language for results')
+  tripId: z.string().min(1).optional().describe('Only return the vehicle serving this trip'),
+  line: z.string().min(1).optional().describe('Only return vehicles of this line, e.g. "M10"'),
+  track: z.boolean().default(false).describe('Poll the vehicle given by tripId (or the first vehicle of line) over time and report its progress'),
+  trackInterval: z.number().min(5).max(MAX_TRACK_SECONDS).default(10).describe('Seconds between polls in track mode'),
+  trackPolls: z.number().min(2).max(6).default(3).describe(`Number of polls in track mode, at most ${MAX_TRACK_SECONDS} seconds apart in total`),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
 });
 
 export type RadarParams = z.infer<typeof RadarSchema>;
 
+/**
+ * Schema for trip search parameters
+ */
+export const TripsSearchSchema = z.object({
+  lineName: z.string().min(1).optional().describe('Line name, e.g. "U2" or "M10"'),
+  fahrtNr: z.string().min(1).optional().describe('Trip number (fahrtNr) as shown in departures'),
+  operator: z.string().min(1).optional().describe('Operator name, e.g. "Berliner Verkehrsbetriebe"'),
+  when: z.string().optional().describe('Date and time in ISO format the trips should run at (default: now)'),
+  fromWhen: z.string().optional().describe('Start of the time window in ISO format'),
+  untilWhen: z.string().optional().describe('End of the time window in ISO format'),
+  onlyCurrentlyRunning: z.boolean().optional().describe('Only return trips that are running right now (default: true unless a time is given)'),
+  currentlyStoppingAt: z.string().optional().describe('Only return trips currently stopping at this stop ID'),
+  products: z.array(ProductSchema).min(1).optional().describe('Only include these products'),
+  results: z.number().min(1).max(100).default(20).describe('Maximum number of trips to return'),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
+});
+
+export type TripsSearchParams = z.infer<typeof TripsSearchSchema>;
+
 /**
  * MCP tool for getting trip details
  */
-export const tripDetailsTool: Tool = createMcpTool(
-  'bvg_trip_details',
-  'Get detailed information about a specific trip by ID',
-  TripDetailsSchema
-);
+export const tripDetailsTool = defineTool({
+  name: 'bvg_trip_details',
+  description: 'Get detailed information about a specific trip by ID',
+  schema: TripDetailsSchema,
+  outputSchema: TripSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeTripDetails,
+  formatter: tripFormatter,
+  structured: result => ({ ...result })
+});
 
 /**
  * MCP tool for radar search
  */
-export const radarTool: Tool = createMcpTool(
-  'bvg_radar',
-  'Find vehicles in a geographic area with movement data',
-  RadarSchema
-);
+export const radarTool = defineTool({
+  name: 'bvg_radar',
+  description: 'Find vehicles in a geographic area with their next stopovers and the movement frames computed by the upstream. Filter by tripId or line, or set track to poll one vehicle over time and report its progress, delay trend and next stop.',
+  schema: RadarSchema,
+  outputSchema: RadarOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeRadar,
+  formatter: radarFormatter,
+  structured: result => ({ ...result })
+});
+
+/**
+ * MCP tool for searching trips
+ */
+export const tripsSearchTool = defineTool({
+  name: 'bvg_trips_search',
+  description: 'Search trips by line name, trip number (fahrtNr), operator or time window. Returns lightweight trip summaries whose tripId can be passed to bvg_trip_details.',
+  schema: TripsSearchSchema,
+  outputSchema: TripsSearchOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeTripsSearch,
+  formatter: tripsSearchFormatter,
+  structured: result => ({ ...result })
+});
 
 /**
  * Execute trip details lookup
  */
-export async function executeTripDetails(params: TripDetailsParams): Promise<Trip> {
+export async function executeTripDetails(params: TripDetailsParams, client: BvgClient = bvgApi): Promise<Trip> {
   const queryParams: Record<string, string | number | boolean> = {
     stopovers: params.stopovers,
     polyline: params.polyline,
@@ -67,41 +142,253 @@ export async function executeTripDetails(params: TripDetailsParams): Promise<Tri
   }
 
   try {
-    const response = await bvgApi.get<{ trip: Trip }>(`/trips/${encodeURIComponent(params.tripId)}`, queryParams);
-    return response.trip;
+    return await withFallback(
+      async () => {
+        const response = await client.get<unknown>(`/trips/${encodeURIComponent(params.tripId)}`, queryParams);
+        return validateResponse<{ trip: Trip }>(z.object({ trip: TripSchema }).passthrough(), response, 'trip').trip;
+      },
+      source => source.trip(params.tripId),
+      params.network
+    );
   } catch (error) {
-    throw new Error(`Failed to get trip details: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError('Failed to get trip details', error);
   }
 }
 
 /**
- * Execute radar search
+ * Fetch one radar snapshot and apply the tripId and line filters
  */
-export async function executeRadar(params: RadarParams): Promise<RadarResult> {
-  // Validate bounding box
-  if (params.north <= params.south) {
-    throw new Error('Northern boundary must be greater than southern boundary');
-  }
-  if (params.east <= params.west) {
-    throw new Error('Eastern boundary must be greater than western boundary');
-  }
-
+async function radarSnapshot(params: RadarParams, client: BvgClient): Promise<RadarResult> {
+  // The filters apply client-side, so fetch all vehicles to not lose the wanted ones to the cap
+  const filtered = Boolean(params.tripId || params.line);
   const queryParams = {
     north: params.north,
     west: params.west,
     south: params.south,
     east: params.east,
-    results: params.results,
+    results: filtered ? RADAR_MAX_RESULTS : params.results,
     duration: params.duration,
     frames: params.frames,
     polylines: params.polylines,
     language: params.language
   };
 
+  const response = await client.get<unknown>('/radar', queryParams);
+  const radar = validateResponse<RadarResult>(RadarResultSchema, response, 'radar');
+
+  return {
+    ...radar,
+    movements: radar.movements.filter(movement =>
+      (!params.tripId || movement.tripId === params.tripId) &&
+      (!params.line || movement.line?.name?.toLowerCase() === params.line.toLowerCase())
+    ).slice(0, params.results)
+  };
+}
+
+function trackSample(movement: Movement | undefined, at: number): TrackSample {
+  if (!movement) {
+    return { at: new Date(at).toISOString(), visible: false };
+  }
+
+  const next = upcomingStopover(movement, at);
+  return {
+    at: new Date(at).toISOString(),
+    visible: true,
+    latitude: movement.location?.latitude,
+    longitude: movement.location?.longitude,
+    nextStop: next?.stop ? { id: next.stop.id, name: next.stop.name } : undefined,
+    delay: next ? next.arrivalDelay ?? next.departureDelay ?? undefined : undefined
+  };
+}
+
+/**
+ * Summarize the samples of a tracked vehicle
+ */
+export function summarizeTrack(tripId: string, samples: TrackSample[], last?: Movement): VehicleTrack {
+  const positions = samples.filter(sample => sample.latitude !== undefined && sample.longitude !== undefined);
+  const first = positions[0];
+  const latest = positions[positions.length - 1];
+  const distanceTravelled = first && latest
+    ? Math.round(distanceBetween(
+      { latitude: first.latitude!, longitude: first.longitude! },
+      { latitude: latest.latitude!, longitude: latest.longitude! }
+    ))
+    : 0;
+
+  // A stop is passed when the next stop changes between polls
+  const stopsPassed: VehicleTrack['stopsPassed'] = [];
+  samples.forEach((sample, index) => {
+    const previous = samples.slice(0, index).reverse().find(earlier => earlier.nextStop)?.nextStop;
+    if (previous && sample.nextStop && previous.id !== sample.nextStop.id &&
+      !stopsPassed.some(stop => stop.id === previous.id)) {
+      stopsPassed.push(previous);
+    }
+  });
+
+  const delays = samples.flatMap(sample => sample.delay !== undefined ? [sample.delay] : []);
+  let delayTrend: VehicleTrack['delayTrend'] = 'unknown';
+  if (delays.length >= 2) {
+    const change = delays[delays.length - 1] - delays[0];
+    delayTrend = change >= 60 ? 'increasing' : change <= -60 ? 'decreasing' : 'stable';
+  }
+
+  const lastSample = [...samples].reverse().find(sample => sample.visible);
+  const next = last && lastSample ? upcomingStopover(last, new Date(lastSample.at).getTime()) : undefined;
+
+  return {
+    tripId,
+    line: last?.line?.name,
+    direction: last?.direction ?? undefined,
+    samples,
+    distanceTravelled,
+    stopsPassed,
+    delayTrend,
+    nextStop: next?.stop
+      ? {
+        id: next.stop.id,
+        name: next.stop.name,
+        arrival: next.arrival ?? next.plannedArrival ?? undefined,
+        delay: next.arrivalDelay ?? next.departureDelay ?? undefined
+      }
+      : undefined
+  };
+}
+
+/**
+ * Execute radar search
+ */
+export async function executeRadar(params: RadarParams, client: BvgClient = bvgApi): Promise<RadarResult> {
+  // Validate bounding box
+  if (params.north <= params.south) {
+    throw new InvalidRequestError('Northern boundary must be greater than southern boundary');
+  }
+  if (params.east <= params.west) {
+    throw new InvalidRequestError('Eastern boundary must be greater than western boundary');
+  }
+  if (params.track && !params.tripId && !params.line) {
+    throw new InvalidRequestError('Track mode requires a tripId or line');
+  }
+  if (params.track && params.trackInterval * (params.trackPolls - 1) > MAX_TRACK_SECONDS) {
+    throw new InvalidRequestError(`Track mode may poll for at most ${MAX_TRACK_SECONDS} seconds, reduce trackPolls or trackInterval`);
+  }
+
+  try {
+    let radar = await radarSnapshot(params, client);
+    if (!params.track) {
+      return radar;
+    }
+
+    const tripId = params.tripId ?? radar.movements[0]?.tripId;
+    if (!tripId) {
+      throw new NotFoundError(`No vehicle of line ${params.line} found in this area`);
+    }
+
+    // Follow only the chosen vehicle, even if it was picked by line
+    const tracked = { ...params, tripId };
+    let vehicle = radar.movements.find(movement => movement.tripId === tripId);
+    let lastSeen = vehicle;
+    const samples = [trackSample(vehicle, Date.now())];
+
+    for (let poll = 1; poll < params.trackPolls; poll++) {
+      await sleep(params.trackInterval * 1000);
+      radar = await radarSnapshot(tracked, client);
+      vehicle = radar.movements[0];
+      lastSeen = vehicle ?? lastSeen;
+      samples.push(trackSample(vehicle, Date.now()));
+    }
+
+    return { ...radar, track: summarizeTrack(tripId, samples, lastSeen) };
+  } catch (error) {
+    throw wrapError('Failed to execute radar search', error);
+  }
+}
+
+/**
+ * Run a trip search against the /trips endpoint and return the full trips.
+ * Stopovers are only fetched on request since they make responses large.
+ */
+export async function searchTrips(params: TripsSearchParams, stopovers = false, client: BvgClient = bvgApi): Promise<Trip[]> {
+  if (params.fromWhen && params.untilWhen && new Date(params.fromWhen) > new Date(params.untilWhen)) {
+    throw new InvalidRequestError('fromWhen must be before untilWhen');
+  }
+
+  if (!params.lineName && !params.fahrtNr && !params.operator && !params.currentlyStoppingAt) {
+    throw new InvalidRequestError('Provide a lineName, fahrtNr, operator or currentlyStoppingAt to search for');
+  }
+
+  // The upstream matches `query` against line names and trip numbers, "*" matches all trips
+  const query = params.fahrtNr ?? params.lineName ?? '*';
+
+  const queryParams: Record<string, string | number | boolean> = {
+    query,
+    // Trips at another time are never running right now
+    onlyCurrentlyRunning: params.onlyCurrentlyRunning ?? !(params.when || params.fromWhen || params.untilWhen),
+    stopovers,
+    remarks: true,
+    language: params.language
+  };
+
+  if (params.lineName) queryParams.lineName = params.lineName;
+  if (params.operator) queryParams.operatorNames = params.operator;
+  if (params.when) queryParams.when = params.when;
+  if (params.fromWhen) queryParams.fromWhen = params.fromWhen;
+  if (params.untilWhen) queryParams.untilWhen = params.untilWhen;
+  if (params.currentlyStoppingAt) queryParams.currentlyStoppingAt = params.currentlyStoppingAt;
+  if (params.products) Object.assign(queryParams, productFilterParams(params.products));
+
+  const response = await client.get<unknown>('/trips', queryParams);
+  const { trips } = validateResponse<{ trips: Trip[] }>(
+    z.object({ trips: z.array(TripSchema) }).passthrough(),
+    response,
+    'trips'
+  );
+
+  return trips.filter(trip =>
+    (!params.lineName || trip.line?.name?.toLowerCase() === params.lineName.toLowerCase()) &&
+    (!params.fahrtNr || trip.line?.fahrtNr === params.fahrtNr)
+  );
+}
+
+/**
+ * Options for searching trips of a line
+ */
+export interface LineTripsOptions {
+  onlyCurrentlyRunning?: boolean;
+  stopovers?: boolean;
+  language?: 'de' | 'en';
+}
+
+/**
+ * Search trips of a line by name
+ */
+export async function searchTripsByLine(line: string, options: LineTripsOptions = {}, client: BvgClient = bvgApi): Promise<Trip[]> {
+  const { stopovers = true, ...rest } = options;
+  return searchTrips(TripsSearchSchema.parse({ lineName: line, ...rest }), stopovers, client);
+}
+
+/**
+ * Execute trip search
+ */
+export async function executeTripsSearch(params: TripsSearchParams, client: BvgClient = bvgApi): Promise<TripsSearchResult> {
   try {
-    const response = await bvgApi.get<RadarResult>('/radar', queryParams);
-    return response;
+    const trips = await searchTrips(params, false, client);
+    return {
+      trips: trips.slice(0, params.results).map(trip => ({
+        tripId: trip.id,
+        line: trip.line?.name,
+        product: trip.line?.product,
+        fahrtNr: trip.line?.fahrtNr ?? undefined,
+        operator: trip.line?.operator?.name ?? undefined,
+        direction: trip.direction ?? undefined,
+        origin: trip.origin ? { id: trip.origin.id, name: trip.origin.name } : undefined,
+        destination: trip.destination ? { id: trip.destination.id, name: trip.destination.name } : undefined,
+        departure: trip.departure ?? trip.plannedDeparture ?? undefined,
+        departureDelay: trip.departureDelay ?? undefined,
+        arrival: trip.arrival ?? trip.plannedArrival ?? undefined,
+        arrivalDelay: trip.arrivalDelay ?? undefined
+      }))
+    };
   } catch (error) {
-    throw new Error(`Failed to execute radar search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError('Failed to search trips', error);
   }
 }
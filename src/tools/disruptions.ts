@@ -0,0 +1,219 @@
+import { z } from 'zod';
+import { Departure, Disruption, DisruptionsResult, Remark, Stop, Trip } from '../types/bvg.js';
+import { DisruptionsOutputSchema } from '../types/schemas.js';
+import { bvgApi, BvgClient } from '../utils/api.js';
+import { defineTool, READ_ONLY_UPSTREAM } from '../utils/registry.js';
+import { OutputFormatSchema, disruptionsFormatter } from '../utils/format.js';
+import { LanguageSchema, NetworkSchema } from '../utils/config.js';
+import { InvalidRequestError, wrapError } from '../utils/errors.js';
+import { executeStopDepartures } from './stops.js';
+import { executeRadar, executeTripDetails, searchTripsByLine } from './additional.js';
+
+/**
+ * Schema for disruption lookup parameters
+ */
+export const DisruptionsSchema = z.object({
+  line: z.string().min(1).optional().describe('Line name, e.g. "U8" or "M10"'),
+  stopId: z.string().min(1).optional().describe('Stop ID to check (use bvg_locations_search to find stop IDs by station name)'),
+  north: z.number().optional().describe('Northern boundary latitude of an area to check'),
+  west: z.number().optional().describe('Western boundary longitude of an area to check'),
+  south: z.number().optional().describe('Southern boundary latitude of an area to check'),
+  east: z.number().optional().describe('Eastern boundary longitude of an area to check'),
+  duration: z.number().min(1).max(240).default(60).describe('Look at departures within the next n minutes'),
+  maxTrips: z.number().min(1).max(20).default(8).describe('Maximum number of trips to inspect for line or area lookups'),
+  includeHints: z.boolean().default(false).describe('Also include informational hints (e.g. "bicycles allowed")'),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
+});
+
+export type DisruptionsParams = z.infer<typeof DisruptionsSchema>;
+
+/**
+ * MCP tool for disruption lookups
+ */
+export const disruptionsTool = defineTool({
+  name: 'bvg_disruptions',
+  description: 'Find current disruptions and service alerts for a line, a stop or a geographic area. Remarks from departures and trips are de-duplicated and grouped by affected line and stop.',
+  schema: DisruptionsSchema,
+  outputSchema: DisruptionsOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeDisruptions,
+  formatter: disruptionsFormatter,
+  structured: result => ({ ...result })
+});
+
+/**
+ * A remark together with where it was seen
+ */
+interface RemarkSighting {
+  remark: Remark;
+  line?: string;
+  stop?: Stop;
+}
+
+const SEVERITY: Record<Remark['type'], Disruption['severity']> = {
+  warning: 'high',
+  status: 'medium',
+  hint: 'low'
+};
+
+function sameLine(name: string | undefined, line: string | undefined): boolean {
+  return !line || name?.toLowerCase() === line.toLowerCase();
+}
+
+function departureSightings(departures: Departure[]): RemarkSighting[] {
+  return departures.flatMap(departure =>
+    (departure.remarks ?? []).map(remark => ({ remark, line: departure.line?.name, stop: departure.stop }))
+  );
+}
+
+function tripSightings(trip: Trip): RemarkSighting[] {
+  const line = trip.line?.name;
+  return [
+    ...(trip.remarks ?? []).map(remark => ({ remark, line })),
+    ...(trip.stopovers ?? []).flatMap(stopover =>
+      (stopover.remarks ?? []).map(remark => ({ remark, line, stop: stopover.stop }))
+    )
+  ];
+}
+
+/**
+ * Fetch details for one trip per line of the vehicles currently in an area
+ */
+async function tripsInArea(bbox: NonNullable<DisruptionsResult['scope']['bbox']>, params: DisruptionsParams, client: BvgClient): Promise<Trip[]> {
+  const radar = await executeRadar({
+    ...bbox,
+    results: 256,
+    duration: 1,
+    frames: 1,
+    polylines: false,
+    track: false,
+    trackInterval: 10,
+    trackPolls: 3,
+    language: params.language,
+    network: params.network,
+    format: 'json'
+  }, client);
+
+  const tripIds = new Map<string, string>();
+  radar.movements
+    .filter(movement => sameLine(movement.line?.name, params.line))
+    .forEach(movement => {
+      const key = movement.line?.name ?? movement.tripId;
+      if (!tripIds.has(key)) tripIds.set(key, movement.tripId);
+    });
+
+  const trips = await Promise.allSettled(
+    Array.from(tripIds.values()).slice(0, params.maxTrips).map(tripId => executeTripDetails({
+      tripId,
+      stopovers: true,
+      polyline: false,
+      language: params.language,
+      network: params.network,
+      format: 'json'
+    }, client))
+  );
+
+  return trips.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+}
+
+/**
+ * Merge sightings of the same remark into one disruption each
+ */
+export function aggregateRemarks(sightings: RemarkSighting[], includeHints: boolean): Disruption[] {
+  const byKey = new Map<string, Disruption>();
+
+  sightings
+    .filter(({ remark }) => includeHints || remark.type !== 'hint')
+    .forEach(({ remark, line, stop }) => {
+      const key = remark.id ?? `${remark.code ?? ''}|${remark.text.trim().toLowerCase()}`;
+      let disruption = byKey.get(key);
+
+      if (!disruption) {
+        disruption = {
+          type: remark.type,
+          severity: SEVERITY[remark.type] ?? 'low',
+          code: remark.code ?? undefined,
+          summary: remark.summary ?? undefined,
+          text: remark.text,
+          validFrom: remark.validFrom ?? undefined,
+          validUntil: remark.validUntil ?? undefined,
+          lines: [],
+          stops: []
+        };
+        byKey.set(key, disruption);
+      }
+
+      if (line && !disruption.lines.includes(line)) {
+        disruption.lines.push(line);
+      }
+      if (stop?.id && !disruption.stops.some(existing => existing.id === stop.id)) {
+        disruption.stops.push({ id: stop.id, name: stop.name });
+      }
+    });
+
+  const order: Record<Disruption['severity'], number> = { high: 0, medium: 1, low: 2 };
+  return Array.from(byKey.values()).sort((a, b) => order[a.severity] - order[b.severity]);
+}
+
+/**
+ * Execute disruption lookup
+ */
+export async function executeDisruptions(params: DisruptionsParams, client: BvgClient = bvgApi): Promise<DisruptionsResult> {
+  const boundaries = [params.north, params.west, params.south, params.east];
+  const hasBbox = boundaries.every(value => value !== undefined);
+
+  if (!hasBbox && boundaries.some(value => value !== undefined)) {
+    throw new InvalidRequestError('An area requires all of north, west, south and east');
+  }
+  if (!params.line && !params.stopId && !hasBbox) {
+    throw new InvalidRequestError('Provide a line, a stopId or an area (north, west, south, east)');
+  }
+
+  const bbox = hasBbox
+    ? { north: params.north!, west: params.west!, south: params.south!, east: params.east! }
+    : undefined;
+  const sightings: RemarkSighting[] = [];
+  const sources = { departures: 0, trips: 0 };
+
+  try {
+    if (params.stopId) {
+      const departures = await executeStopDepartures({
+        stopId: params.stopId,
+        duration: params.duration,
+        results: 100,
+        linesOfStops: false,
+        remarks: true,
+        line: params.line,
+        language: params.language,
+        network: params.network,
+        format: 'json'
+      }, client);
+      sources.departures = departures.length;
+      sightings.push(...departureSightings(departures));
+    }
+
+    if (bbox) {
+      const trips = await tripsInArea(bbox, params, client);
+      sources.trips = trips.length;
+      trips.forEach(trip => sightings.push(...tripSightings(trip)));
+    } else if (params.line && !params.stopId) {
+      const trips = (await searchTripsByLine(params.line, { language: params.language }, client)).slice(0, params.maxTrips);
+      sources.trips = trips.length;
+      trips.forEach(trip => sightings.push(...tripSightings(trip)));
+    }
+  } catch (error) {
+    throw wrapError('Failed to collect disruptions', error);
+  }
+
+  return {
+    scope: {
+      ...(params.line ? { line: params.line } : {}),
+      ...(params.stopId ? { stopId: params.stopId } : {}),
+      ...(bbox ? { bbox } : {})
+    },
+    disruptions: aggregateRemarks(sightings, params.includeHints),
+    sources
+  };
+}
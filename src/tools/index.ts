@@ -0,0 +1,34 @@
+import { RegisteredTool, registeredTool } from '../utils/registry.js';
+import { locationsSearchTool } from './locations.js';
+import { nearbyLocationsTool } from './nearby.js';
+import { stopDetailsTool, stopDeparturesTool, stopArrivalsTool } from './stops.js';
+import { departureMonitorTool } from './monitor.js';
+import { journeyPlanTool, journeyRefreshTool } from './journeys.js';
+import { reachableFromTool } from './reachable.js';
+import { tripDetailsTool, tripsSearchTool, radarTool } from './additional.js';
+import { disruptionsTool } from './disruptions.js';
+import { lineInfoTool } from './lines.js';
+import { savePlaceTool, listPlacesTool, deletePlaceTool } from './places.js';
+
+/**
+ * All tools of the server, in the order they are listed
+ */
+export const allTools: RegisteredTool[] = [
+  registeredTool(locationsSearchTool),
+  registeredTool(nearbyLocationsTool),
+  registeredTool(stopDetailsTool),
+  registeredTool(stopDeparturesTool),
+  registeredTool(stopArrivalsTool),
+  registeredTool(departureMonitorTool),
+  registeredTool(journeyPlanTool),
+  registeredTool(journeyRefreshTool),
+  registeredTool(reachableFromTool),
+  registeredTool(tripDetailsTool),
+  registeredTool(tripsSearchTool),
+  registeredTool(radarTool),
+  registeredTool(disruptionsTool),
+  registeredTool(lineInfoTool),
+  registeredTool(savePlaceTool),
+  registeredTool(listPlacesTool),
+  registeredTool(deletePlaceTool)
+];
@@ -1,74 +1,350 @@
 import { z } from 'zod';
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { Journey } from '../types/bvg.js';
-import { bvgApi } from '../utils/api.js';
-import { createMcpTool } from '../utils/schema.js';
+import { Journey, JourneysResponse, JourneyPlanResult, JourneyRefreshResult, Leg, LegChange, Products } from '../types/bvg.js';
+import {
+  JourneySchema,
+  JourneysOutputSchema,
+  JourneyPlanOutputSchema,
+  JourneyRefreshOutputSchema,
+  ProductSchema
+} from '../types/schemas.js';
+import { bvgApi, BvgClient, productFilterParams, PRODUCTS } from '../utils/api.js';
+import { defineTool, READ_ONLY_UPSTREAM } from '../utils/registry.js';
+import { OutputFormatSchema, transferWaits, journeysFormatter, journeyRefreshFormatter } from '../utils/format.js';
+import { config, LanguageSchema, NetworkSchema } from '../utils/config.js';
+import { InvalidRequestError, wrapError } from '../utils/errors.js';
+import { validateResponse } from '../utils/validation.js';
+import { resolveLocation, locationQueryParams } from '../utils/resolve.js';
+import { profileStore } from '../utils/profile.js';
+import { journeyAccessibility, SLOW_WALKING_TRANSFER_TIME } from '../utils/accessibility.js';
 
 /**
  * Schema for journey planning parameters
  */
 export const JourneyPlanSchema = z.object({
-  from: z.string().min(1).describe('Origin location (stop ID, address, or coordinates - use bvg_locations_search to find stop IDs by station name)'),
-  to: z.string().min(1).describe('Destination location (stop ID, address, or coordinates - use bvg_locations_search to find stop IDs by station name)'),
-  via: z.string().optional().describe('Via location (stop ID, address, or coordinates - use bvg_locations_search to find stop IDs by station name)'),
+  from: z.string().min(1).describe('Origin: saved place name, stop ID, "latitude,longitude" coordinates, or a station name/address which is resolved via bvg_locations_search'),
+  to: z.string().min(1).describe('Destination: saved place name, stop ID, "latitude,longitude" coordinates, or a station name/address which is resolved via bvg_locations_search'),
+  via: z.string().optional().describe('Via stop: saved place name, stop ID, station name, or coordinates (resolved to the nearest stop)'),
   departure: z.string().optional().describe('Departure time in ISO format (default: now)'),
   arrival: z.string().optional().describe('Arrival time in ISO format (alternative to departure)'),
+  earlierThan: z.string().optional().describe('Show connections earlier than a previous result (pass its earlierRef)'),
+  laterThan: z.string().optional().describe('Show connections later than a previous result (pass its laterRef)'),
   results: z.number().min(1).max(6).default(3).describe('Number of journey alternatives'),
   stopovers: z.boolean().default(false).describe('Include stopovers for each journey leg'),
   transfers: z.number().min(-1).max(10).default(-1).describe('Maximum number of transfers (-1 for unlimited)'),
   transferTime: z.number().min(0).max(60).default(0).describe('Minimum transfer time in minutes'),
+  maxTransferTime: z.number().min(1).max(120).optional().describe('Drop journeys with a transfer wait longer than this many minutes'),
+  products: z.array(ProductSchema).min(1).optional().describe('Only use these products, e.g. ["suburban"] for S-Bahn only'),
+  suburban: z.boolean().optional().describe('Use S-Bahn (set to false to exclude)'),
+  subway: z.boolean().optional().describe('Use U-Bahn (set to false to exclude)'),
+  tram: z.boolean().optional().describe('Use trams (set to false to exclude)'),
+  bus: z.boolean().optional().describe('Use buses (set to false to exclude)'),
+  ferry: z.boolean().optional().describe('Use ferries (set to false to exclude)'),
+  express: z.boolean().optional().describe('Use long-distance trains (set to false to exclude)'),
+  regional: z.boolean().optional().describe('Use regional trains (set to false to exclude)'),
+  routingMode: z.enum(['REALTIME', 'FULL', 'INFOS', 'OFF']).optional().describe('How realtime data is used for routing: REALTIME (default upstream), FULL, INFOS or OFF (timetable only)'),
   accessibility: z.enum(['partial', 'complete']).optional().describe('Accessibility requirements'),
+  accessible: z.boolean().default(false).describe('Accessibility-focused mode: requires complete accessibility unless set, reports facility remarks of the stations used, flags journeys changing at stations with elevator or escalator outages and searches later connections to replace them'),
   bike: z.boolean().default(false).describe('Allow taking a bike'),
-  walkingSpeed: z.enum(['slow', 'normal', 'fast']).default('normal').describe('Walking speed preference'),
+  walkingSpeed: z.enum(['slow', 'normal', 'fast']).default('normal').describe(`Walking speed preference; 'slow' allows at least ${SLOW_WALKING_TRANSFER_TIME} minutes per transfer`),
   startWithWalking: z.boolean().default(true).describe('Allow walking to first stop'),
   endWithWalking: z.boolean().default(true).describe('Allow walking from last stop'),
-  language: z.enum(['de', 'en']).default('en').describe('Language for results')
+  remarks: z.boolean().default(true).describe('Include remarks and alerts'),
+  polylines: z.boolean().default(false).describe('Include geographic polylines for each leg'),
+  scheduledDays: z.boolean().default(false).describe('Include the days on which each journey runs'),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
 });
 
 export type JourneyPlanParams = z.infer<typeof JourneyPlanSchema>;
 
+/**
+ * Schema for journey refresh parameters
+ */
+export const JourneyRefreshSchema = z.object({
+  refreshToken: z.string().min(1).describe('Refresh token of a journey returned by bvg_journey_plan'),
+  stopovers: z.boolean().default(false).describe('Include stopovers for each journey leg'),
+  polylines: z.boolean().default(false).describe('Include geographic polylines for each leg'),
+  remarks: z.boolean().default(true).describe('Include remarks and alerts'),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
+});
+
+export type JourneyRefreshParams = z.infer<typeof JourneyRefreshSchema>;
+
+/**
+ * Journeys as originally planned by this server, keyed by network and
+ * refresh token, so that refreshes can be compared with the original legs.
+ * Refreshes never replace the stored journey.
+ */
+const plannedJourneys = new Map<string, Journey>();
+const MAX_PLANNED_JOURNEYS = 200;
+
+function journeyKey(network: string | undefined, refreshToken: string): string {
+  return `${network ?? config.defaultNetwork}:${refreshToken}`;
+}
+
+function rememberPlannedJourney(network: string | undefined, journey: Journey): void {
+  if (!journey.refreshToken) {
+    return;
+  }
+
+  const key = journeyKey(network, journey.refreshToken);
+  if (plannedJourneys.has(key)) {
+    return;
+  }
+  plannedJourneys.set(key, journey);
+
+  if (plannedJourneys.size > MAX_PLANNED_JOURNEYS) {
+    const oldest = plannedJourneys.keys().next().value;
+    if (oldest !== undefined) plannedJourneys.delete(oldest);
+  }
+}
+
 /**
  * MCP tool for journey planning
  */
-export const journeyPlanTool: Tool = createMcpTool(
-  'bvg_journey_plan',
-  'Plan journeys from A to B using Berlin public transport',
-  JourneyPlanSchema
-);
+export const journeyPlanTool = defineTool({
+  name: 'bvg_journey_plan',
+  description: 'Plan journeys from A to B using Berlin public transport. Origin and destination may be stop IDs, coordinates, or names/addresses; the result reports which location was picked and any alternatives. Results include earlierRef/laterRef cursors; pass them as earlierThan/laterThan with the same from/to to page through connections.',
+  schema: JourneyPlanSchema,
+  outputSchema: JourneyPlanOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeJourneyPlan,
+  formatter: journeysFormatter,
+  structured: result => ({ ...result })
+});
+
+/**
+ * MCP tool for refreshing a journey
+ */
+export const journeyRefreshTool = defineTool({
+  name: 'bvg_journey_refresh',
+  description: 'Get realtime updates (delays, platforms, cancellations) for a journey planned with bvg_journey_plan, using its refreshToken. Reports what changed since the journey was planned.',
+  schema: JourneyRefreshSchema,
+  outputSchema: JourneyRefreshOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeJourneyRefresh,
+  formatter: journeyRefreshFormatter,
+  structured: result => ({ ...result })
+});
 
 /**
  * Execute journey planning
  */
-export async function executeJourneyPlan(params: JourneyPlanParams): Promise<Journey[]> {
+export async function executeJourneyPlan(params: JourneyPlanParams, client: BvgClient = bvgApi): Promise<JourneyPlanResult> {
   // Validate that both departure and arrival are not set at the same time
   if (params.departure && params.arrival) {
-    throw new Error('Cannot specify both departure and arrival time. Choose one.');
+    throw new InvalidRequestError('Cannot specify both departure and arrival time. Choose one.');
+  }
+
+  // A paging cursor replaces the departure/arrival time
+  const timeOptions = [params.departure, params.arrival, params.earlierThan, params.laterThan].filter(Boolean);
+  if (timeOptions.length > 1) {
+    throw new InvalidRequestError('Specify only one of departure, arrival, earlierThan or laterThan.');
+  }
+
+  let resolved: JourneyPlanResult['resolved'];
+  try {
+    const [from, to, via] = await Promise.all([
+      resolveLocation(params.from, { language: params.language, client }),
+      resolveLocation(params.to, { language: params.language, client }),
+      params.via ? resolveLocation(params.via, { stopsOnly: true, language: params.language, client }) : undefined
+    ]);
+    resolved = { from, to, ...(via ? { via } : {}) };
+  } catch (error) {
+    throw wrapError('Failed to resolve journey locations', error);
   }
 
+  // Saved places may carry default products and accessibility preferences
+  const places = [resolved.from, resolved.to]
+    .map(location => location.savedPlace ? profileStore.get(location.savedPlace) : undefined);
+  const hasProductFilter = params.products !== undefined || PRODUCTS.some(product => params[product] !== undefined);
+  const products = hasProductFilter ? params.products : places.find(place => place?.products)?.products;
+  // Accessible mode asks for complete accessibility, whatever the places default to
+  const accessibility = params.accessibility ??
+    (params.accessible ? 'complete' : places.find(place => place?.accessibility)?.accessibility);
+
   const queryParams: Record<string, any> = {
-    from: params.from,
-    to: params.to,
+    ...locationQueryParams('from', resolved.from),
+    ...locationQueryParams('to', resolved.to),
     results: params.results,
-    stopovers: params.stopovers,
+    // Outages are reported in stopover remarks
+    stopovers: params.stopovers || params.accessible,
     transfers: params.transfers,
-    transferTime: params.transferTime,
+    transferTime: params.walkingSpeed === 'slow'
+      ? Math.max(params.transferTime, SLOW_WALKING_TRANSFER_TIME)
+      : params.transferTime,
     bike: params.bike,
     walkingSpeed: params.walkingSpeed,
     startWithWalking: params.startWithWalking,
     endWithWalking: params.endWithWalking,
-    language: params.language
+    remarks: params.remarks || params.accessible,
+    polylines: params.polylines,
+    scheduledDays: params.scheduledDays,
+    language: params.language,
+    ...journeyProductParams({ ...params, products })
   };
 
   // Add optional parameters
-  if (params.via) queryParams.via = params.via;
+  if (resolved.via) queryParams.via = resolved.via.id;
   if (params.departure) queryParams.departure = params.departure;
   if (params.arrival) queryParams.arrival = params.arrival;
-  if (params.accessibility) queryParams.accessibility = params.accessibility;
+  if (params.earlierThan) queryParams.earlierThan = params.earlierThan;
+  if (params.laterThan) queryParams.laterThan = params.laterThan;
+  if (accessibility) queryParams.accessibility = accessibility;
+  if (params.routingMode) queryParams.routingMode = params.routingMode;
 
   try {
-    const response = await bvgApi.get<{ journeys: Journey[] }>('/journeys', queryParams);
-    return response.journeys;
+    const fetchJourneys = async (query: Record<string, any>) => {
+      const response = await client.get<unknown>('/journeys', query);
+      const result = validateResponse<JourneysResponse>(JourneysOutputSchema, response, 'journeys');
+      result.journeys.forEach(journey => rememberPlannedJourney(params.network, journey));
+      return result;
+    };
+    const withinTransferTime = (journey: Journey) =>
+      params.maxTransferTime === undefined || transferWaits(journey).every(wait => wait <= params.maxTransferTime!);
+
+    const result = await fetchJourneys(queryParams);
+    const journeys = result.journeys.filter(withinTransferTime);
+
+    if (!params.accessible) {
+      return {
+        journeys,
+        earlierRef: result.earlierRef ?? undefined,
+        laterRef: result.laterRef ?? undefined,
+        resolved
+      };
+    }
+
+    return { ...await replanAccessible(journeys, result, queryParams, fetchJourneys, withinTransferTime, params), resolved };
   } catch (error) {
-    throw new Error(`Failed to plan journey: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError('Failed to plan journey', error);
   }
 }
+
+/**
+ * Accessible mode: when fewer than the requested number of journeys avoid
+ * elevator and escalator outages, search one page of later connections and
+ * list unaffected journeys first. Stopovers are dropped again unless requested.
+ */
+async function replanAccessible(
+  journeys: Journey[],
+  result: JourneysResponse,
+  queryParams: Record<string, any>,
+  fetchJourneys: (query: Record<string, any>) => Promise<JourneysResponse>,
+  withinTransferTime: (journey: Journey) => boolean,
+  params: JourneyPlanParams
+): Promise<Omit<JourneyPlanResult, 'resolved'>> {
+  let candidates = journeys;
+  let laterRef = result.laterRef ?? undefined;
+  let replanned = false;
+
+  const unaffected = journeys.filter(journey => !journeyAccessibility(journey).affected).length;
+  if (unaffected < params.results && laterRef && !params.earlierThan) {
+    const { departure, arrival, laterThan, ...baseQuery } = queryParams;
+    const later = await fetchJourneys({ ...baseQuery, laterThan: laterRef });
+    candidates = [...candidates, ...later.journeys.filter(withinTransferTime)];
+    laterRef = later.laterRef ?? undefined;
+    replanned = true;
+  }
+
+  const ranked = candidates
+    .map(journey => ({ journey, accessibility: journeyAccessibility(journey) }))
+    .sort((a, b) => Number(a.accessibility.affected) - Number(b.accessibility.affected))
+    .slice(0, replanned ? params.results : candidates.length);
+
+  return {
+    journeys: ranked.map(({ journey }) => params.stopovers
+      ? journey
+      : { ...journey, legs: journey.legs.map(({ stopovers, ...leg }) => leg) }),
+    accessibility: ranked.map(({ accessibility }) => accessibility),
+    replanned,
+    earlierRef: result.earlierRef ?? undefined,
+    laterRef
+  };
+}
+
+/**
+ * Combine the `products` list and the per-product toggles into upstream parameters
+ */
+function journeyProductParams(params: JourneyPlanParams): Partial<Record<keyof Products, boolean>> {
+  const toggles: Partial<Record<keyof Products, boolean>> = params.products
+    ? productFilterParams(params.products)
+    : {};
+
+  PRODUCTS.forEach(product => {
+    const value = params[product];
+    if (value === undefined) {
+      return;
+    }
+    if (params.products && value && !params.products.includes(product)) {
+      throw new InvalidRequestError(`Product "${product}" is enabled but not listed in products`);
+    }
+    toggles[product] = value;
+  });
+
+  if (PRODUCTS.every(product => toggles[product] === false)) {
+    throw new InvalidRequestError('At least one product must be enabled');
+  }
+
+  return toggles;
+}
+
+/**
+ * Execute journey refresh
+ */
+export async function executeJourneyRefresh(params: JourneyRefreshParams, client: BvgClient = bvgApi): Promise<JourneyRefreshResult> {
+  const queryParams = {
+    stopovers: params.stopovers,
+    polylines: params.polylines,
+    remarks: params.remarks,
+    language: params.language
+  };
+
+  let journey: Journey;
+  try {
+    const response = await client.get<unknown>(`/journeys/${encodeURIComponent(params.refreshToken)}`, queryParams);
+    journey = validateResponse<{ journey: Journey }>(
+      z.object({ journey: JourneySchema }).passthrough(),
+      response,
+      'journey refresh'
+    ).journey;
+  } catch (error) {
+    throw wrapError('Failed to refresh journey', error);
+  }
+
+  const planned = plannedJourneys.get(journeyKey(params.network, params.refreshToken));
+
+  return {
+    journey,
+    compared: planned !== undefined,
+    changes: planned ? diffJourneys(planned, journey) : []
+  };
+}
+
+/**
+ * Compare two versions of a journey leg by leg
+ */
+export function diffJourneys(previous: Journey, current: Journey): LegChange[] {
+  if (previous.legs.length !== current.legs.length) {
+    return [{ leg: 0, field: 'legs', previous: previous.legs.length, current: current.legs.length }];
+  }
+
+  const fields: Array<{ field: LegChange['field']; value: (leg: Leg) => string | number | boolean | null }> = [
+    { field: 'departureDelay', value: leg => leg.departureDelay ?? null },
+    { field: 'arrivalDelay', value: leg => leg.arrivalDelay ?? null },
+    { field: 'departurePlatform', value: leg => leg.departurePlatform ?? leg.plannedDeparturePlatform ?? null },
+    { field: 'arrivalPlatform', value: leg => leg.arrivalPlatform ?? leg.plannedArrivalPlatform ?? null },
+    { field: 'cancelled', value: leg => leg.cancelled ?? false },
+    { field: 'reachable', value: leg => leg.reachable ?? null }
+  ];
+
+  return current.legs.flatMap((leg, index) =>
+    fields
+      .map(({ field, value }) => ({ field, previous: value(previous.legs[index]), current: value(leg) }))
+      .filter(change => change.previous !== change.current)
+      .map(change => ({ leg: index + 1, line: leg.line?.name, ...change }))
+  );
+}
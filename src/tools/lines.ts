@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { LineDirection, LineInfoResult, Trip } from '../types/bvg.js';
+import { LineInfoOutputSchema } from '../types/schemas.js';
+import { bvgApi, BvgClient } from '../utils/api.js';
+import { defineTool, READ_ONLY_UPSTREAM } from '../utils/registry.js';
+import { OutputFormatSchema, lineInfoFormatter } from '../utils/format.js';
+import { LanguageSchema, NetworkSchema } from '../utils/config.js';
+import { NotFoundError, wrapError } from '../utils/errors.js';
+import { executeStopDepartures } from './stops.js';
+import { executeTripDetails, searchTripsByLine } from './additional.js';
+
+/**
+ * Schema for line info parameters
+ */
+export const LineInfoSchema = z.object({
+  line: z.string().min(1).describe('Line name, e.g. "U2", "M10" or "S41"'),
+  stopId: z.string().min(1).optional().describe('A stop served by the line, used to find its trips when the line name is ambiguous or no trips are running'),
+  polyline: z.boolean().default(false).describe('Include the route polyline for each direction'),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
+});
+
+export type LineInfoParams = z.infer<typeof LineInfoSchema>;
+
+/**
+ * MCP tool for line information
+ */
+export const lineInfoTool = defineTool({
+  name: 'bvg_line_info',
+  description: 'Get information about a line (e.g. "M10" or "U2"): its mode, operator and the ordered list of stops in both directions',
+  schema: LineInfoSchema,
+  outputSchema: LineInfoOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeLineInfo,
+  formatter: lineInfoFormatter,
+  structured: result => ({ ...result })
+});
+
+/**
+ * Find trip IDs of the line, preferring currently running trips
+ */
+async function findLineTripIds(params: LineInfoParams, client: BvgClient): Promise<string[]> {
+  if (params.stopId) {
+    const departures = await executeStopDepartures({
+      stopId: params.stopId,
+      duration: 120,
+      results: 20,
+      linesOfStops: false,
+      remarks: false,
+      line: params.line,
+      language: params.language,
+      network: params.network,
+      format: 'json'
+    }, client);
+    return departures.map(departure => departure.tripId);
+  }
+
+  let trips = await searchTripsByLine(params.line, { stopovers: false, language: params.language }, client);
+  if (trips.length === 0) {
+    trips = await searchTripsByLine(params.line, { onlyCurrentlyRunning: false, stopovers: false, language: params.language }, client);
+  }
+
+  return trips.map(trip => trip.id);
+}
+
+/**
+ * Pick the longest trip, then the longest trip in the opposite direction
+ */
+export function pickDirections(trips: Trip[]): Trip[] {
+  const length = (trip: Trip) => trip.stopovers?.length ?? 0;
+  const sorted = [...trips].sort((a, b) => length(b) - length(a));
+  const [main] = sorted;
+
+  if (!main) {
+    return [];
+  }
+
+  const opposite = sorted.find(trip => trip.destination?.id === main.origin?.id) ??
+    sorted.find(trip => trip.destination?.name === main.origin?.name) ??
+    sorted.find(trip => trip.direction !== main.direction && trip.destination?.id !== main.destination?.id);
+
+  return opposite ? [main, opposite] : [main];
+}
+
+function toDirection(trip: Trip, withPolyline: boolean): LineDirection {
+  return {
+    direction: trip.direction ?? undefined,
+    tripId: trip.id,
+    origin: { id: trip.origin.id, name: trip.origin.name },
+    destination: { id: trip.destination.id, name: trip.destination.name },
+    stops: (trip.stopovers ?? []).map(stopover => ({
+      id: stopover.stop.id,
+      name: stopover.stop.name,
+      latitude: stopover.stop.location?.latitude,
+      longitude: stopover.stop.location?.longitude
+    })),
+    ...(withPolyline && trip.polyline ? { polyline: trip.polyline } : {})
+  };
+}
+
+/**
+ * Execute line info lookup
+ */
+export async function executeLineInfo(params: LineInfoParams, client: BvgClient = bvgApi): Promise<LineInfoResult> {
+  try {
+    const tripIds = Array.from(new Set(await findLineTripIds(params, client))).slice(0, 8);
+
+    if (tripIds.length === 0) {
+      throw new NotFoundError(`No trips found for line ${params.line}`);
+    }
+
+    const results = await Promise.allSettled(tripIds.map(tripId => executeTripDetails({
+      tripId,
+      stopovers: true,
+      polyline: params.polyline,
+      language: params.language,
+      network: params.network,
+      format: 'json'
+    }, client)));
+    const trips = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+
+    if (trips.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    const { line } = trips[0];
+    return {
+      line: {
+        id: line.id,
+        name: line.name,
+        mode: line.mode,
+        product: line.product,
+        productName: line.productName ?? undefined,
+        operator: line.operator?.name ?? undefined
+      },
+      directions: pickDirections(trips).map(trip => toDirection(trip, params.polyline))
+    };
+  } catch (error) {
+    throw wrapError(`Failed to get line info for ${params.line}`, error);
+  }
+}
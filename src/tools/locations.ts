@@ -1,8 +1,13 @@
 import { z } from 'zod';
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Location } from '../types/bvg.js';
-import { bvgApi } from '../utils/api.js';
-import { createMcpTool } from '../utils/schema.js';
+import { LocationSchema, LocationsOutputSchema } from '../types/schemas.js';
+import { bvgApi, BvgClient } from '../utils/api.js';
+import { defineTool, READ_ONLY_UPSTREAM } from '../utils/registry.js';
+import { OutputFormatSchema, locationsFormatter } from '../utils/format.js';
+import { LanguageSchema, NetworkSchema } from '../utils/config.js';
+import { wrapError } from '../utils/errors.js';
+import { validateResponse } from '../utils/validation.js';
+import { withFallback } from '../data/source.js';
 
 /**
  * Schema for locations search parameters
@@ -13,7 +18,9 @@ export const LocationsSearchSchema = z.object({
   addresses: z.boolean().default(true).describe('Include addresses in search'),
   poi: z.boolean().default(true).describe('Include points of interest in search'),
   linesOfStops: z.boolean().default(false).describe('Include lines that serve returned stops'),
-  language: z.enum(['de', 'en']).default('en').describe('Language for results')
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
 });
 
 export type LocationsSearchParams = z.infer<typeof LocationsSearchSchema>;
@@ -21,16 +28,21 @@ export type LocationsSearchParams = z.infer<typeof LocationsSearchSchema>;
 /**
  * MCP tool for searching locations
  */
-export const locationsSearchTool: Tool = createMcpTool(
-  'bvg_locations_search',
-  'Search for stops, addresses, and points of interest in Berlin using the BVG API. Use this tool to find stop IDs by station name for other tools that require stopId parameters.',
-  LocationsSearchSchema
-);
+export const locationsSearchTool = defineTool({
+  name: 'bvg_locations_search',
+  description: 'Search for stops, addresses, and points of interest in Berlin using the BVG API. Use this tool to find stop IDs by station name for other tools that require stopId parameters.',
+  schema: LocationsSearchSchema,
+  outputSchema: LocationsOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeLocationsSearch,
+  formatter: locationsFormatter,
+  structured: locations => ({ locations })
+});
 
 /**
  * Execute locations search
  */
-export async function executeLocationsSearch(params: LocationsSearchParams): Promise<Location[]> {
+export async function executeLocationsSearch(params: LocationsSearchParams, client: BvgClient = bvgApi): Promise<Location[]> {
   const queryParams = {
     query: params.query,
     results: params.results,
@@ -41,9 +53,15 @@ export async function executeLocationsSearch(params: LocationsSearchParams): Pro
   };
 
   try {
-    const response = await bvgApi.get<Location[]>('/locations', queryParams);
-    return response;
+    return await withFallback(
+      async () => {
+        const response = await client.get<unknown>('/locations', queryParams);
+        return validateResponse<Location[]>(z.array(LocationSchema), response, 'locations');
+      },
+      source => source.searchStops(params.query, params.results),
+      params.network
+    );
   } catch (error) {
-    throw new Error(`Failed to search locations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError('Failed to search locations', error);
   }
 }
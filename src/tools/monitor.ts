@@ -0,0 +1,154 @@
+import { z } from 'zod';
+import { DepartureMonitorResult, Location, MonitorDeparture } from '../types/bvg.js';
+import { DepartureMonitorOutputSchema, ProductSchema } from '../types/schemas.js';
+import { bvgApi, BvgClient, distanceBetween, parseCoordinates } from '../utils/api.js';
+import { defineTool, READ_ONLY_UPSTREAM } from '../utils/registry.js';
+import { OutputFormatSchema, departureMonitorFormatter } from '../utils/format.js';
+import { LanguageSchema, NetworkSchema } from '../utils/config.js';
+import { InvalidRequestError, wrapError } from '../utils/errors.js';
+import { coordinatesFor } from '../utils/profile.js';
+import { executeNearbyLocations } from './nearby.js';
+import { executeStopDepartures, executeStopDetails } from './stops.js';
+
+/**
+ * Schema for departure monitor parameters
+ */
+export const DepartureMonitorSchema = z.object({
+  stopIds: z.array(z.string().min(1)).min(1).max(10).optional().describe('Stop IDs to monitor (use bvg_locations_search to find stop IDs by station name)'),
+  coordinates: z.string().optional().describe('Coordinates in "latitude,longitude" format or a saved place name; monitors the nearest stops if stopIds is not given, otherwise used for walking distances'),
+  radius: z.number().min(50).max(2000).default(500).describe('Search radius in meters around the coordinates'),
+  maxStops: z.number().min(1).max(10).default(3).describe('Maximum number of nearby stops to monitor'),
+  duration: z.number().min(1).max(120).default(20).describe('Show departures for the next n minutes'),
+  results: z.number().min(1).max(100).default(30).describe('Maximum number of departures on the merged board'),
+  products: z.array(ProductSchema).min(1).optional().describe('Only include these products, e.g. ["subway", "tram"]'),
+  when: z.string().optional().describe('Date and time in ISO format (default: now)'),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
+});
+
+export type DepartureMonitorParams = z.infer<typeof DepartureMonitorSchema>;
+
+/**
+ * MCP tool for monitoring departures at several stops
+ */
+export const departureMonitorTool = defineTool({
+  name: 'bvg_departure_monitor',
+  description: 'Get one merged, time-sorted departure board for several stops, given as stop IDs or as coordinates plus radius. Vehicles seen at several sibling platforms are listed once, with the walking distance to each stop.',
+  schema: DepartureMonitorSchema,
+  outputSchema: DepartureMonitorOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeDepartureMonitor,
+  formatter: departureMonitorFormatter,
+  structured: result => ({ ...result })
+});
+
+/**
+ * Find the stops to monitor with their distance from the search point
+ */
+async function monitoredStops(params: DepartureMonitorParams, client: BvgClient): Promise<DepartureMonitorResult['stops']> {
+  const origin = params.coordinates ? parseCoordinates(coordinatesFor(params.coordinates)) : undefined;
+
+  if (params.stopIds) {
+    const unique = Array.from(new Set(params.stopIds));
+    if (!origin) {
+      return unique.map(id => ({ id }));
+    }
+
+    // Stop coordinates are only needed for walking distances
+    return Promise.all(unique.map(async id => {
+      try {
+        const stop = await executeStopDetails({ stopId: id, linesOfStops: false, accessible: false, language: params.language, network: params.network, format: 'json' }, client);
+        return { id, name: stop.name, distance: distanceBetween(origin, stop.location) };
+      } catch {
+        return { id };
+      }
+    }));
+  }
+
+  if (!params.coordinates) {
+    throw new InvalidRequestError('Provide either stopIds or coordinates');
+  }
+
+  const nearby = await executeNearbyLocations({
+    coordinates: params.coordinates,
+    results: params.maxStops,
+    distance: params.radius,
+    stops: true,
+    poi: false,
+    linesOfStops: false,
+    language: params.language,
+    network: params.network,
+    format: 'json'
+  }, client);
+
+  const stops = nearby.filter((location): location is Location & { id: string } =>
+    (location.type === 'stop' || location.type === 'station') && typeof location.id === 'string'
+  );
+
+  if (stops.length === 0) {
+    throw new InvalidRequestError(`No stops found within ${params.radius} m of ${params.coordinates}`);
+  }
+
+  return stops.map(stop => ({ id: stop.id, name: stop.name, distance: stop.distance }));
+}
+
+function departureTime(departure: MonitorDeparture): number {
+  return new Date(departure.when ?? departure.plannedWhen ?? 0).getTime();
+}
+
+/**
+ * Execute departure monitor
+ */
+export async function executeDepartureMonitor(params: DepartureMonitorParams, client: BvgClient = bvgApi): Promise<DepartureMonitorResult> {
+  let stops: DepartureMonitorResult['stops'];
+  try {
+    stops = await monitoredStops(params, client);
+  } catch (error) {
+    throw wrapError('Failed to find stops to monitor', error);
+  }
+
+  const boards = await Promise.allSettled(stops.map(stop => executeStopDepartures({
+    stopId: stop.id,
+    when: params.when,
+    duration: params.duration,
+    results: params.results,
+    linesOfStops: false,
+    remarks: true,
+    products: params.products,
+    language: params.language,
+    network: params.network,
+    format: 'json'
+  }, client)));
+
+  if (boards.every(board => board.status === 'rejected')) {
+    throw wrapError('Failed to get departures for any monitored stop', (boards[0] as PromiseRejectedResult).reason);
+  }
+
+  // Keep each trip once, at the closest stop it was seen at
+  const byTrip = new Map<string, MonitorDeparture>();
+  boards.forEach((board, index) => {
+    const stop = stops[index];
+    if (board.status === 'rejected') {
+      stop.error = board.reason instanceof Error ? board.reason.message : String(board.reason);
+      return;
+    }
+
+    stop.name ??= board.value[0]?.stop?.name;
+    board.value.forEach(departure => {
+      const entry: MonitorDeparture = { ...departure, walkingDistance: stop.distance };
+      const key = departure.tripId;
+      const existing = byTrip.get(key);
+
+      if (!existing || (entry.walkingDistance ?? Infinity) < (existing.walkingDistance ?? Infinity)) {
+        byTrip.set(key, entry);
+      }
+    });
+  });
+
+  const departures = Array.from(byTrip.values())
+    .sort((a, b) => departureTime(a) - departureTime(b))
+    .slice(0, params.results);
+
+  return { stops, departures };
+}
@@ -1,20 +1,28 @@
 import { z } from 'zod';
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { Location } from '../types/bvg.js';
-import { bvgApi, parseCoordinates } from '../utils/api.js';
-import { createMcpTool } from '../utils/schema.js';
+import { LocationSchema, LocationsOutputSchema } from '../types/schemas.js';
+import { bvgApi, BvgClient, parseCoordinates } from '../utils/api.js';
+import { defineTool, READ_ONLY_UPSTREAM } from '../utils/registry.js';
+import { OutputFormatSchema, locationsFormatter } from '../utils/format.js';
+import { LanguageSchema, NetworkSchema } from '../utils/config.js';
+import { wrapError } from '../utils/errors.js';
+import { validateResponse } from '../utils/validation.js';
+import { coordinatesFor } from '../utils/profile.js';
+import { withFallback } from '../data/source.js';
 
 /**
  * Schema for nearby locations search parameters
  */
 export const NearbyLocationsSchema = z.object({
-  coordinates: z.string().describe('Coordinates in "latitude,longitude" format (e.g., "52.5200,13.4050")'),
+  coordinates: z.string().describe('Coordinates in "latitude,longitude" format (e.g., "52.5200,13.4050") or a saved place name'),
   results: z.number().min(1).max(100).default(8).describe('Maximum number of results to return'),
   distance: z.number().min(1).max(10000).default(1000).describe('Search radius in meters'),
   stops: z.boolean().default(true).describe('Include stops in search'),
   poi: z.boolean().default(false).describe('Include points of interest in search'),
   linesOfStops: z.boolean().default(false).describe('Include lines that serve returned stops'),
-  language: z.enum(['de', 'en']).default('en').describe('Language for results')
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
 });
 
 export type NearbyLocationsParams = z.infer<typeof NearbyLocationsSchema>;
@@ -22,17 +30,22 @@ export type NearbyLocationsParams = z.infer<typeof NearbyLocationsSchema>;
 /**
  * MCP tool for finding nearby locations
  */
-export const nearbyLocationsTool: Tool = createMcpTool(
-  'bvg_locations_nearby',
-  'Find nearby stops and points of interest by coordinates in Berlin',
-  NearbyLocationsSchema
-);
+export const nearbyLocationsTool = defineTool({
+  name: 'bvg_locations_nearby',
+  description: 'Find nearby stops and points of interest by coordinates in Berlin',
+  schema: NearbyLocationsSchema,
+  outputSchema: LocationsOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeNearbyLocations,
+  formatter: locationsFormatter,
+  structured: locations => ({ locations })
+});
 
 /**
  * Execute nearby locations search
  */
-export async function executeNearbyLocations(params: NearbyLocationsParams): Promise<Location[]> {
-  const { latitude, longitude } = parseCoordinates(params.coordinates);
+export async function executeNearbyLocations(params: NearbyLocationsParams, client: BvgClient = bvgApi): Promise<Location[]> {
+  const { latitude, longitude } = parseCoordinates(coordinatesFor(params.coordinates));
 
   const queryParams = {
     latitude: latitude,
@@ -46,9 +59,15 @@ export async function executeNearbyLocations(params: NearbyLocationsParams): Pro
   };
 
   try {
-    const response = await bvgApi.get<Location[]>('/locations/nearby', queryParams);
-    return response;
+    return await withFallback(
+      async () => {
+        const response = await client.get<unknown>('/locations/nearby', queryParams);
+        return validateResponse<Location[]>(z.array(LocationSchema), response, 'nearby locations');
+      },
+      source => source.nearbyStops(latitude, longitude, params.distance, params.results),
+      params.network
+    );
   } catch (error) {
-    throw new Error(`Failed to find nearby locations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError('Failed to find nearby locations', error);
   }
 }
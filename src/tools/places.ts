@@ -0,0 +1,179 @@
+import { z } from 'zod';
+import { SavedPlace } from '../types/bvg.js';
+import { PlacesOutputSchema, ProductSchema, SavedPlaceSchema } from '../types/schemas.js';
+import { bvgApi, BvgClient, parseCoordinates } from '../utils/api.js';
+import { defineTool } from '../utils/registry.js';
+import { OutputFormatSchema, placeFormatter, placesFormatter } from '../utils/format.js';
+import { LanguageSchema, NetworkSchema } from '../utils/config.js';
+import { InvalidRequestError, NotFoundError, wrapError } from '../utils/errors.js';
+import { profileStore } from '../utils/profile.js';
+import { COORDINATES_PATTERN, resolveLocation, STOP_ID_PATTERN } from '../utils/resolve.js';
+import { executeStopDetails } from './stops.js';
+
+/**
+ * Schema for saving a place
+ */
+export const SavePlaceSchema = z.object({
+  // Such names would shadow the stop or coordinates they look like
+  name: z.string().min(1).max(50)
+    .refine(name => !STOP_ID_PATTERN.test(name.trim()) && !COORDINATES_PATTERN.test(name), 'Name must not look like a stop ID or coordinates')
+    .describe('Name to refer to the place by, e.g. "home" or "work"'),
+  stopId: z.string().min(1).optional().describe('Stop ID of the place'),
+  address: z.string().min(1).optional().describe('Address of the place, resolved via bvg_locations_search'),
+  coordinates: z.string().optional().describe('Coordinates in "latitude,longitude" format'),
+  products: z.array(ProductSchema).min(1).optional().describe('Products to use by default for journeys and departures involving this place'),
+  accessibility: z.enum(['partial', 'complete']).optional().describe('Accessibility requirements for journeys involving this place'),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
+});
+
+export type SavePlaceParams = z.infer<typeof SavePlaceSchema>;
+
+/**
+ * Schema for listing saved places
+ */
+export const ListPlacesSchema = z.object({
+  format: OutputFormatSchema
+});
+
+export type ListPlacesParams = z.infer<typeof ListPlacesSchema>;
+
+/**
+ * Schema for deleting a saved place
+ */
+export const DeletePlaceSchema = z.object({
+  name: z.string().min(1).describe('Name of the saved place'),
+  format: OutputFormatSchema
+});
+
+export type DeletePlaceParams = z.infer<typeof DeletePlaceSchema>;
+
+/**
+ * MCP tool for saving a place
+ */
+export const savePlaceTool = defineTool({
+  name: 'bvg_places_save',
+  description: 'Save a named place (e.g. "home" or "work") as a stop ID, address or coordinates, with optional default products and accessibility preferences. The name can then be used wherever a stop ID or coordinates are expected.',
+  schema: SavePlaceSchema,
+  outputSchema: SavedPlaceSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: true },
+  execute: executeSavePlace,
+  formatter: placeFormatter,
+  structured: result => ({ ...result })
+});
+
+/**
+ * MCP tool for listing saved places
+ */
+export const listPlacesTool = defineTool({
+  name: 'bvg_places_list',
+  description: 'List all saved places',
+  schema: ListPlacesSchema,
+  outputSchema: PlacesOutputSchema,
+  annotations: { readOnlyHint: true, openWorldHint: false },
+  execute: () => executeListPlaces(),
+  formatter: placesFormatter,
+  structured: places => ({ places })
+});
+
+/**
+ * MCP tool for deleting a saved place
+ */
+export const deletePlaceTool = defineTool({
+  name: 'bvg_places_delete',
+  description: 'Delete a saved place and return the remaining places',
+  schema: DeletePlaceSchema,
+  outputSchema: PlacesOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  execute: executeDeletePlace,
+  formatter: placesFormatter,
+  structured: places => ({ places })
+});
+
+/**
+ * Work out stop ID, label and coordinates of the place to save
+ */
+async function locatePlace(params: SavePlaceParams, client: BvgClient): Promise<Omit<SavedPlace, 'name' | 'savedAt'>> {
+  if (params.stopId) {
+    const stop = await executeStopDetails({
+      stopId: params.stopId,
+      linesOfStops: false,
+      accessible: false,
+      language: params.language,
+      network: params.network,
+      format: 'json'
+    }, client);
+    return {
+      kind: 'stop',
+      stopId: stop.id,
+      label: stop.name,
+      latitude: stop.location?.latitude,
+      longitude: stop.location?.longitude
+    };
+  }
+
+  if (params.address) {
+    const resolved = await resolveLocation(params.address, { language: params.language, client });
+    if (resolved.kind === 'stop' || resolved.kind === 'stop-id') {
+      return {
+        kind: 'stop',
+        stopId: resolved.id,
+        label: resolved.name,
+        latitude: resolved.latitude,
+        longitude: resolved.longitude
+      };
+    }
+    return {
+      kind: 'address',
+      label: resolved.name,
+      latitude: resolved.latitude,
+      longitude: resolved.longitude
+    };
+  }
+
+  const { latitude, longitude } = parseCoordinates(params.coordinates!);
+  return { kind: 'coordinates', latitude, longitude };
+}
+
+/**
+ * Execute saving a place
+ */
+export async function executeSavePlace(params: SavePlaceParams, client: BvgClient = bvgApi): Promise<SavedPlace> {
+  const targets = [params.stopId, params.address, params.coordinates].filter(Boolean);
+  if (targets.length !== 1) {
+    throw new InvalidRequestError('Provide exactly one of stopId, address or coordinates');
+  }
+
+  try {
+    const place: SavedPlace = {
+      name: params.name.trim(),
+      ...(await locatePlace(params, client)),
+      ...(params.products ? { products: params.products } : {}),
+      ...(params.accessibility ? { accessibility: params.accessibility } : {}),
+      savedAt: new Date().toISOString()
+    };
+
+    await profileStore.save(place);
+    return place;
+  } catch (error) {
+    throw wrapError('Failed to save place', error);
+  }
+}
+
+/**
+ * Execute listing saved places
+ */
+export async function executeListPlaces(): Promise<SavedPlace[]> {
+  return profileStore.list();
+}
+
+/**
+ * Execute deleting a saved place
+ */
+export async function executeDeletePlace(params: DeletePlaceParams): Promise<SavedPlace[]> {
+  if (!(await profileStore.delete(params.name))) {
+    throw new NotFoundError(`No saved place named "${params.name}"`);
+  }
+  return profileStore.list();
+}
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { ReachableBucket, ReachableResult, ReachableStop, Stop } from '../types/bvg.js';
+import { ProductSchema, ReachableOutputSchema, ReachableStationsSchema } from '../types/schemas.js';
+import { bvgApi, BvgClient, productFilterParams } from '../utils/api.js';
+import { defineTool, READ_ONLY_UPSTREAM } from '../utils/registry.js';
+import { OutputFormatSchema, reachableFormatter } from '../utils/format.js';
+import { LanguageSchema, NetworkSchema } from '../utils/config.js';
+import { wrapError } from '../utils/errors.js';
+import { resolveLocation } from '../utils/resolve.js';
+import { validateResponse } from '../utils/validation.js';
+import { executeStopDetails } from './stops.js';
+
+/**
+ * Schema for reachability parameters
+ */
+export const ReachableFromSchema = z.object({
+  origin: z.string().min(1).describe('Address, place name, stop ID or coordinates in "latitude,longitude" format to start from'),
+  maxDuration: z.number().min(1).max(120).default(20).describe('Maximum travel time in minutes'),
+  maxTransfers: z.number().min(0).max(10).default(5).describe('Maximum number of transfers'),
+  products: z.array(ProductSchema).min(1).optional().describe('Only use these products, e.g. ["subway", "suburban"]'),
+  bucketSize: z.number().min(1).max(60).default(5).describe('Group reached stops into travel time buckets of n minutes'),
+  geojson: z.boolean().default(false).describe('Include a GeoJSON FeatureCollection of the reached stops'),
+  when: z.string().optional().describe('Date and time in ISO format (default: now)'),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
+});
+
+export type ReachableFromParams = z.infer<typeof ReachableFromSchema>;
+
+/**
+ * MCP tool for reachability lookups
+ */
+export const reachableFromTool = defineTool({
+  name: 'bvg_reachable_from',
+  description: 'Find all stops reachable from an address or coordinates within a maximum travel time, grouped by travel time (e.g. "what can I reach within 20 minutes of Hermannplatz?"). Optionally returns the reached stops as GeoJSON.',
+  schema: ReachableFromSchema,
+  outputSchema: ReachableOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeReachableFrom,
+  formatter: reachableFormatter,
+  structured: result => ({ ...result })
+});
+
+/**
+ * Work out the address and coordinates the upstream needs as origin.
+ * Stop IDs carry no coordinates, so those are looked up.
+ */
+async function resolveOrigin(params: ReachableFromParams, client: BvgClient): Promise<ReachableResult['origin']> {
+  const resolved = await resolveLocation(params.origin, { language: params.language, client });
+
+  if (resolved.kind === 'stop-id') {
+    const stop = await executeStopDetails({
+      stopId: resolved.id!,
+      linesOfStops: false,
+      accessible: false,
+      language: params.language,
+      network: params.network,
+      format: 'json'
+    }, client);
+    return { address: stop.name, latitude: stop.location.latitude, longitude: stop.location.longitude };
+  }
+
+  return {
+    address: resolved.name ?? resolved.input.trim(),
+    latitude: resolved.latitude!,
+    longitude: resolved.longitude!
+  };
+}
+
+/**
+ * Group reached stops into buckets of `size` minutes, skipping empty buckets
+ */
+export function bucketStops(stops: ReachableStop[], size: number): ReachableBucket[] {
+  const buckets = new Map<number, ReachableBucket>();
+
+  stops.forEach(stop => {
+    // Durations on a boundary belong to the lower bucket, e.g. 5 min to 0–5
+    const index = Math.max(0, Math.ceil(stop.duration / size) - 1);
+    let bucket = buckets.get(index);
+    if (!bucket) {
+      bucket = { minDuration: index * size, maxDuration: (index + 1) * size, stops: [] };
+      buckets.set(index, bucket);
+    }
+    bucket.stops.push(stop);
+  });
+
+  return Array.from(buckets.values()).sort((a, b) => a.minDuration - b.minDuration);
+}
+
+/**
+ * Execute reachability lookup
+ */
+export async function executeReachableFrom(params: ReachableFromParams, client: BvgClient = bvgApi): Promise<ReachableResult> {
+  try {
+    const origin = await resolveOrigin(params, client);
+
+    const queryParams: Record<string, string | number | boolean> = {
+      address: origin.address,
+      latitude: origin.latitude,
+      longitude: origin.longitude,
+      maxDuration: params.maxDuration,
+      maxTransfers: params.maxTransfers,
+      language: params.language
+    };
+
+    if (params.when) queryParams.when = params.when;
+    if (params.products) Object.assign(queryParams, productFilterParams(params.products));
+
+    const response = await client.get<unknown>('/stops/reachable-from', queryParams);
+    const groups = validateResponse<Array<{ duration: number; stations: Stop[] }>>(
+      ReachableStationsSchema,
+      response,
+      'reachable stops'
+    );
+
+    // A stop can show up under several durations, keep the fastest
+    const byId = new Map<string, ReachableStop>();
+    groups
+      .slice()
+      .sort((a, b) => a.duration - b.duration)
+      .forEach(group => group.stations.forEach(station => {
+        if (!byId.has(station.id)) {
+          byId.set(station.id, {
+            id: station.id,
+            name: station.name,
+            latitude: station.location?.latitude,
+            longitude: station.location?.longitude,
+            duration: group.duration
+          });
+        }
+      }));
+
+    const stops = Array.from(byId.values());
+    const result: ReachableResult = {
+      origin,
+      maxDuration: params.maxDuration,
+      buckets: bucketStops(stops, params.bucketSize)
+    };
+
+    if (params.geojson) {
+      result.geojson = {
+        type: 'FeatureCollection',
+        features: stops
+          .filter(stop => stop.latitude !== undefined && stop.longitude !== undefined)
+          .map(stop => ({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [stop.longitude!, stop.latitude!] },
+            properties: { id: stop.id, name: stop.name, duration: stop.duration }
+          }))
+      };
+    }
+
+    return result;
+  } catch (error) {
+    throw wrapError('Failed to find reachable stops', error);
+  }
+}
@@ -1,16 +1,26 @@
 import { z } from 'zod';
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { Stop, Departure, Arrival } from '../types/bvg.js';
-import { bvgApi, validateStopId } from '../utils/api.js';
-import { createMcpTool } from '../utils/schema.js';
+import { Stop, StopDetailsResult, StopAccessibility, Departure, Arrival } from '../types/bvg.js';
+import { StopSchema, StopDetailsOutputSchema, DeparturesOutputSchema, ArrivalsOutputSchema, ProductSchema } from '../types/schemas.js';
+import { bvgApi, BvgClient, productFilterParams, validateStopId } from '../utils/api.js';
+import { defineTool, READ_ONLY_UPSTREAM } from '../utils/registry.js';
+import { OutputFormatSchema, stopFormatter, departuresFormatter, arrivalsFormatter } from '../utils/format.js';
+import { LanguageSchema, NetworkSchema } from '../utils/config.js';
+import { InvalidRequestError, wrapError } from '../utils/errors.js';
+import { validateResponse } from '../utils/validation.js';
+import { profileStore, stopIdFor } from '../utils/profile.js';
+import { withFallback } from '../data/source.js';
+import { facilityOutages, facilityRemarkTexts } from '../utils/accessibility.js';
 
 /**
  * Schema for stop details parameters
  */
 export const StopDetailsSchema = z.object({
-  stopId: z.string().min(1).describe('Unique identifier of the stop (not the station name - use bvg_locations_search to find stop IDs by station name)'),
+  stopId: z.string().min(1).describe('Unique identifier of the stop or a saved place name (not the station name - use bvg_locations_search to find stop IDs by station name)'),
   linesOfStops: z.boolean().default(false).describe('Include lines that serve this stop'),
-  language: z.enum(['de', 'en']).default('en').describe('Language for results')
+  accessible: z.boolean().default(false).describe('Include accessibility info: facility remarks (elevators, ramps, step-free access) and elevator or escalator outages reported for departures within the next hour'),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
 });
 
 export type StopDetailsParams = z.infer<typeof StopDetailsSchema>;
@@ -19,13 +29,19 @@ export type StopDetailsParams = z.infer<typeof StopDetailsSchema>;
  * Schema for stop departures/arrivals parameters
  */
 export const StopDeparturesSchema = z.object({
-  stopId: z.string().min(1).describe('Unique identifier of the stop (not the station name - use bvg_locations_search to find stop IDs by station name)'),
+  stopId: z.string().min(1).describe('Unique identifier of the stop or a saved place name (not the station name - use bvg_locations_search to find stop IDs by station name)'),
   when: z.string().optional().describe('Date and time in ISO format (default: now)'),
   duration: z.number().min(1).max(1440).default(120).describe('Show departures for the next n minutes'),
   results: z.number().min(1).max(100).default(10).describe('Maximum number of results'),
   linesOfStops: z.boolean().default(false).describe('Include lines that serve this stop'),
   remarks: z.boolean().default(true).describe('Include remarks and alerts'),
-  language: z.enum(['de', 'en']).default('en').describe('Language for results')
+  products: z.array(ProductSchema).min(1).optional().describe('Only include these products, e.g. ["subway", "suburban"]'),
+  line: z.string().min(1).optional().describe('Only include this line, e.g. "U2" or "M10"'),
+  direction: z.string().min(1).optional().describe('Only include vehicles heading towards this stop ID'),
+  platform: z.string().min(1).optional().describe('Only include this platform'),
+  language: LanguageSchema,
+  network: NetworkSchema,
+  format: OutputFormatSchema
 });
 
 export type StopDeparturesParams = z.infer<typeof StopDeparturesSchema>;
@@ -33,37 +49,53 @@ export type StopDeparturesParams = z.infer<typeof StopDeparturesSchema>;
 /**
  * MCP tool for getting stop details
  */
-export const stopDetailsTool: Tool = createMcpTool(
-  'bvg_stop_details',
-  'Get detailed information about a specific stop or station',
-  StopDetailsSchema
-);
+export const stopDetailsTool = defineTool({
+  name: 'bvg_stop_details',
+  description: 'Get detailed information about a specific stop or station',
+  schema: StopDetailsSchema,
+  outputSchema: StopDetailsOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeStopDetails,
+  formatter: stopFormatter,
+  structured: result => ({ ...result })
+});
 
 /**
  * MCP tool for getting stop departures
  */
-export const stopDeparturesTool: Tool = createMcpTool(
-  'bvg_stop_departures',
-  'Get upcoming departures at a specific stop or station',
-  StopDeparturesSchema
-);
+export const stopDeparturesTool = defineTool({
+  name: 'bvg_stop_departures',
+  description: 'Get upcoming departures at a specific stop or station, optionally filtered by product, line, direction or platform',
+  schema: StopDeparturesSchema,
+  outputSchema: DeparturesOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeStopDepartures,
+  formatter: departuresFormatter,
+  structured: departures => ({ departures })
+});
 
 /**
  * MCP tool for getting stop arrivals
  */
-export const stopArrivalsTool: Tool = createMcpTool(
-  'bvg_stop_arrivals',
-  'Get upcoming arrivals at a specific stop or station',
-  StopDeparturesSchema
-);
+export const stopArrivalsTool = defineTool({
+  name: 'bvg_stop_arrivals',
+  description: 'Get upcoming arrivals at a specific stop or station, optionally filtered by product, line, direction or platform',
+  schema: StopDeparturesSchema,
+  outputSchema: ArrivalsOutputSchema,
+  annotations: READ_ONLY_UPSTREAM,
+  execute: executeStopArrivals,
+  formatter: arrivalsFormatter,
+  structured: arrivals => ({ arrivals })
+});
 
 /**
  * Execute stop details lookup
  */
-export async function executeStopDetails(params: StopDetailsParams): Promise<Stop> {
+export async function executeStopDetails(params: StopDetailsParams, client: BvgClient = bvgApi): Promise<StopDetailsResult> {
   if (!validateStopId(params.stopId)) {
-    throw new Error('Invalid stop ID provided');
+    throw new InvalidRequestError('Invalid stop ID provided');
   }
+  const stopId = stopIdFor(params.stopId);
 
   const queryParams = {
     linesOfStops: params.linesOfStops,
@@ -71,65 +103,159 @@ export async function executeStopDetails(params: StopDetailsParams): Promise<Sto
   };
 
   try {
-    const response = await bvgApi.get<Stop>(`/stops/${encodeURIComponent(params.stopId)}`, queryParams);
-    return response;
+    return await withFallback(
+      async () => {
+        const response = await client.get<unknown>(`/stops/${encodeURIComponent(stopId)}`, queryParams);
+        const stop = validateResponse<Stop>(StopSchema, response, 'stop');
+        return params.accessible
+          ? { ...stop, accessibility: await stopAccessibility(stop, params.language, client) }
+          : stop;
+      },
+      async source => {
+        const stop = await source.stop(stopId);
+        // Facility outages are only known from realtime remarks
+        return params.accessible
+          ? { ...stop, accessibility: { available: false, reason: 'not available offline' } }
+          : stop;
+      },
+      params.network
+    );
   } catch (error) {
-    throw new Error(`Failed to get stop details: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError('Failed to get stop details', error);
   }
 }
 
 /**
- * Execute stop departures lookup
+ * Facility remarks and outages of a stop, taken from the remarks of its
+ * departures within the next hour. The upstream has no separate facility
+ * status, so outages are only known while vehicles depart.
  */
-export async function executeStopDepartures(params: StopDeparturesParams): Promise<Departure[]> {
-  if (!validateStopId(params.stopId)) {
-    throw new Error('Invalid stop ID provided');
-  }
+async function stopAccessibility(stop: Stop, language: string, client: BvgClient): Promise<StopAccessibility> {
+  const response = await client.get<unknown>(`/stops/${encodeURIComponent(stop.id)}/departures`, {
+    duration: 60,
+    remarks: true,
+    language
+  });
+  const remarks = validateResponse<{ departures: Departure[] }>(DeparturesOutputSchema, response, 'departures')
+    .departures.flatMap(departure => departure.remarks ?? []);
+  const outages = facilityOutages(remarks, { stop });
 
+  return {
+    available: true,
+    remarks: facilityRemarkTexts(remarks),
+    outages: outages.filter((outage, index) => outages.findIndex(other => other.text === outage.text) === index)
+  };
+}
+
+/**
+ * Build the upstream query for a departure or arrival board.
+ * Line and platform filters are applied client-side, so all results within
+ * the time window are requested and `results` is applied after filtering.
+ */
+function boardQueryParams(params: StopDeparturesParams): Record<string, string | number | boolean> {
   const queryParams: Record<string, string | number | boolean> = {
     duration: params.duration,
-    results: params.results,
     linesOfStops: params.linesOfStops,
     remarks: params.remarks,
     language: params.language
   };
 
+  if (!params.line && !params.platform) {
+    queryParams.results = params.results;
+  }
+
   if (params.when) {
     queryParams.when = params.when;
   }
 
-  try {
-    const response = await bvgApi.get<{ departures: Departure[] }>(`/stops/${encodeURIComponent(params.stopId)}/departures`, queryParams);
-    return response.departures;
-  } catch (error) {
-    throw new Error(`Failed to get stop departures: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  if (params.direction) {
+    queryParams.direction = params.direction;
+  }
+
+  if (params.products) {
+    Object.assign(queryParams, productFilterParams(params.products));
   }
+
+  return queryParams;
 }
 
 /**
- * Execute stop arrivals lookup
+ * Replace a saved-place alias by its stop ID and default products
  */
-export async function executeStopArrivals(params: StopDeparturesParams): Promise<Arrival[]> {
-  if (!validateStopId(params.stopId)) {
-    throw new Error('Invalid stop ID provided');
+function withSavedPlace(params: StopDeparturesParams): StopDeparturesParams {
+  const place = profileStore.get(params.stopId);
+  if (!place) {
+    return params;
   }
+  return { ...params, stopId: stopIdFor(params.stopId), products: params.products ?? place.products };
+}
 
-  const queryParams: Record<string, string | number | boolean> = {
-    duration: params.duration,
-    results: params.results,
-    linesOfStops: params.linesOfStops,
-    remarks: params.remarks,
-    language: params.language
-  };
+/**
+ * Apply the client-side filters and the result limit
+ */
+function filterBoard<T extends Departure>(items: T[], params: StopDeparturesParams): T[] {
+  const line = params.line?.trim().toLowerCase();
+  const platform = params.platform?.trim().toLowerCase();
 
-  if (params.when) {
-    queryParams.when = params.when;
+  return items
+    .filter(item => !line || item.line?.name?.toLowerCase() === line)
+    .filter(item => !platform || (item.platform ?? item.plannedPlatform)?.toLowerCase() === platform)
+    .slice(0, params.results);
+}
+
+/**
+ * Apply the product filter the upstream API would otherwise apply
+ */
+function filterProducts<T extends Departure>(items: T[], params: StopDeparturesParams): T[] {
+  return params.products
+    ? items.filter(item => !item.line?.product || (params.products as string[]).includes(item.line.product))
+    : items;
+}
+
+/**
+ * Execute stop departures lookup
+ */
+export async function executeStopDepartures(input: StopDeparturesParams, client: BvgClient = bvgApi): Promise<Departure[]> {
+  if (!validateStopId(input.stopId)) {
+    throw new InvalidRequestError('Invalid stop ID provided');
+  }
+  const params = withSavedPlace(input);
+
+  try {
+    const departures = await withFallback(
+      async () => {
+        const response = await client.get<unknown>(`/stops/${encodeURIComponent(params.stopId)}/departures`, boardQueryParams(params));
+        return validateResponse<{ departures: Departure[] }>(DeparturesOutputSchema, response, 'departures').departures;
+      },
+      async source => filterProducts(await source.departures(params.stopId, params), params),
+      params.network
+    );
+    return filterBoard(departures, params);
+  } catch (error) {
+    throw wrapError('Failed to get stop departures', error);
+  }
+}
+
+/**
+ * Execute stop arrivals lookup
+ */
+export async function executeStopArrivals(input: StopDeparturesParams, client: BvgClient = bvgApi): Promise<Arrival[]> {
+  if (!validateStopId(input.stopId)) {
+    throw new InvalidRequestError('Invalid stop ID provided');
   }
+  const params = withSavedPlace(input);
 
   try {
-    const response = await bvgApi.get<{ arrivals: Arrival[] }>(`/stops/${encodeURIComponent(params.stopId)}/arrivals`, queryParams);
-    return response.arrivals;
+    const arrivals = await withFallback(
+      async () => {
+        const response = await client.get<unknown>(`/stops/${encodeURIComponent(params.stopId)}/arrivals`, boardQueryParams(params));
+        return validateResponse<{ arrivals: Arrival[] }>(ArrivalsOutputSchema, response, 'arrivals').arrivals;
+      },
+      async source => filterProducts(await source.arrivals(params.stopId, params), params),
+      params.network
+    );
+    return filterBoard(arrivals, params);
   } catch (error) {
-    throw new Error(`Failed to get stop arrivals: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError('Failed to get stop arrivals', error);
   }
 }
@@ -9,6 +9,7 @@ export interface Location {
   latitude?: number;
   longitude?: number;
   address?: string;
+  poi?: boolean;
   distance?: number;
   products?: Products;
 }
@@ -24,6 +25,7 @@ export interface Stop extends Location {
   };
   products: Products;
   station?: Stop;
+  lines?: Line[];
 }
 
 export interface Products {
@@ -45,12 +47,15 @@ export interface Departure {
   platform?: string;
   plannedPlatform?: string;
   prognosisType?: 'prognosis' | 'calculation';
+  cancelled?: boolean;
   direction?: string;
   provenance?: string;
   line: Line;
   remarks?: Remark[];
   origin?: Stop;
   destination?: Stop;
+  /** Set when answered from the offline timetable, without realtime data */
+  scheduledOnly?: boolean;
 }
 
 export interface Arrival extends Departure {}
@@ -79,11 +84,117 @@ export interface Journey {
   legs: Leg[];
   refreshToken?: string;
   price?: Price;
+  /** Days on which the journey runs, keyed by ISO date (with scheduledDays) */
+  scheduledDays?: Record<string, boolean>;
+}
+
+/**
+ * Response of the /journeys endpoint, with cursors for earlier and later connections
+ */
+export interface JourneysResponse {
+  journeys: Journey[];
+  earlierRef?: string;
+  laterRef?: string;
+  realtimeDataUpdatedAt?: number;
+}
+
+/**
+ * How a free-text origin, destination or via was interpreted
+ */
+export interface ResolvedLocation {
+  input: string;
+  kind: 'stop-id' | 'stop' | 'address' | 'poi' | 'coordinates';
+  id?: string;
+  name?: string;
+  latitude?: number;
+  longitude?: number;
+  /** Other candidates when the input was looked up by name */
+  alternatives?: Array<{ type: Location['type']; id?: string; name?: string }>;
+  /** Name of the saved place the input referred to */
+  savedPlace?: string;
+}
+
+/**
+ * A named place saved in the local profile, e.g. "home" or "work"
+ */
+export interface SavedPlace {
+  name: string;
+  kind: 'stop' | 'address' | 'coordinates';
+  stopId?: string;
+  /** Stop name or address */
+  label?: string;
+  latitude?: number;
+  longitude?: number;
+  /** Products used by default when planning from or to this place */
+  products?: Array<Line['product']>;
+  accessibility?: 'partial' | 'complete';
+  savedAt: string;
+}
+
+/**
+ * An elevator or escalator reported out of service in a remark
+ */
+export interface FacilityOutage {
+  facility: 'elevator' | 'escalator';
+  /** Station the remark is attached to, missing for remarks on a whole leg */
+  stopId?: string;
+  stopName?: string;
+  /** Leg of the journey the remark was found on, counting from 1 */
+  leg?: number;
+  text: string;
+}
+
+/**
+ * Facility remarks (elevators, ramps, step-free access) and outages at a stop
+ */
+export interface StopAccessibility {
+  /** False when it cannot be determined, e.g. from the offline timetable */
+  available: boolean;
+  /** Why the accessibility is not available */
+  reason?: string;
+  /** Facility remarks, only when available */
+  remarks?: string[];
+  /** Elevator and escalator outages, only when available */
+  outages?: FacilityOutage[];
+}
+
+/**
+ * Stop details, with accessibility info when requested
+ */
+export interface StopDetailsResult extends Stop {
+  accessibility?: StopAccessibility;
+}
+
+/**
+ * Accessibility of a journey in accessible mode
+ */
+export interface JourneyAccessibility {
+  /** Stations where the journey boards, alights or changes, with their facility remarks */
+  stops: Array<{ id: string; name: string; remarks: string[] }>;
+  outages: FacilityOutage[];
+  /** Whether an outage is at one of `stops` */
+  affected: boolean;
+}
+
+/**
+ * Result of planning journeys, including how the endpoints were resolved
+ */
+export interface JourneyPlanResult extends JourneysResponse {
+  resolved: {
+    from: ResolvedLocation;
+    to: ResolvedLocation;
+    via?: ResolvedLocation;
+  };
+  /** Accessibility of each journey, in the order of `journeys` (accessible mode only) */
+  accessibility?: JourneyAccessibility[];
+  /** Whether later connections were searched to replace journeys affected by outages */
+  replanned?: boolean;
 }
 
 export interface Leg {
-  origin: Stop;
-  destination: Stop;
+  /** Walking legs may start or end at an address instead of a stop */
+  origin: Stop | Location;
+  destination: Stop | Location;
   departure?: string;
   plannedDeparture?: string;
   departureDelay?: number;
@@ -91,6 +202,7 @@ export interface Leg {
   plannedArrival?: string;
   arrivalDelay?: number;
   reachable?: boolean;
+  cancelled?: boolean;
   tripId?: string;
   line?: Line;
   direction?: string;
@@ -118,14 +230,21 @@ export interface Stopover {
   departureDelay?: number;
   platform?: string;
   plannedPlatform?: string;
+  cancelled?: boolean;
   remarks?: Remark[];
 }
 
 export interface Remark {
   type: 'hint' | 'warning' | 'status';
+  id?: string;
   code?: string;
   text: string;
   summary?: string;
+  priority?: number;
+  category?: number;
+  validFrom?: string;
+  validUntil?: string;
+  modified?: string;
 }
 
 export interface Price {
@@ -134,13 +253,16 @@ export interface Price {
   hint?: string;
 }
 
+/**
+ * GeoJSON FeatureCollection of the points along a route
+ */
 export interface Polyline {
-  type: 'polyline';
+  type: string;
   features: Array<{
     type: 'Feature';
     geometry: {
-      type: 'LineString';
-      coordinates: number[][];
+      type: string;
+      coordinates: unknown[];
     };
   }>;
 }
@@ -157,26 +279,231 @@ export interface Trip {
   arrivalDelay?: number;
   line: Line;
   direction?: string;
+  cancelled?: boolean;
   stopovers?: Stopover[];
+  remarks?: Remark[];
+  polyline?: Polyline;
+  /** Set when answered from the offline timetable, without realtime data */
+  scheduledOnly?: boolean;
+}
+
+/**
+ * Position of a vehicle between two stops, `t` milliseconds from now
+ */
+export interface MovementFrame {
+  origin: Stop;
+  destination: Stop;
+  t: number;
+}
+
+export interface Movement {
+  tripId: string;
+  line: Line;
+  direction?: string;
+  location: {
+    type: 'location';
+    latitude: number;
+    longitude: number;
+  };
+  nextStopovers?: Stopover[];
+  frames?: MovementFrame[];
   polyline?: Polyline;
 }
 
+/**
+ * One observation of a tracked vehicle
+ */
+export interface TrackSample {
+  at: string;
+  /** False when the vehicle was outside the bounding box at this poll */
+  visible: boolean;
+  latitude?: number;
+  longitude?: number;
+  nextStop?: { id: string; name: string };
+  /** Delay in seconds at the next stop */
+  delay?: number;
+}
+
+/**
+ * Progress of a vehicle polled over time
+ */
+export interface VehicleTrack {
+  tripId: string;
+  line?: string;
+  direction?: string;
+  samples: TrackSample[];
+  /** Straight-line distance in meters between the first and last position */
+  distanceTravelled: number;
+  /** Stops the vehicle passed while being tracked */
+  stopsPassed: Array<{ id: string; name: string }>;
+  delayTrend: 'increasing' | 'decreasing' | 'stable' | 'unknown';
+  nextStop?: { id: string; name: string; arrival?: string; delay?: number };
+}
+
 export interface RadarResult {
+  movements: Movement[];
+  realtimeDataUpdatedAt?: number;
+  track?: VehicleTrack;
+}
+
+/**
+ * A departure on a merged multi-stop board
+ */
+export interface MonitorDeparture extends Departure {
+  /** Straight-line distance in meters from the search point to the stop, if known */
+  walkingDistance?: number;
+}
+
+/**
+ * Result of monitoring departures at several stops
+ */
+export interface DepartureMonitorResult {
+  stops: Array<{ id: string; name?: string; distance?: number; error?: string }>;
+  departures: MonitorDeparture[];
+}
+
+/**
+ * A remark collected from departures and trips, de-duplicated across sources
+ */
+export interface Disruption {
+  type: 'warning' | 'status' | 'hint';
+  severity: 'high' | 'medium' | 'low';
+  code?: string;
+  summary?: string;
+  text: string;
+  validFrom?: string;
+  validUntil?: string;
+  /** Names of the affected lines */
+  lines: string[];
+  /** Stops at which the remark was reported */
+  stops: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Result of a disruption lookup
+ */
+export interface DisruptionsResult {
+  scope: { line?: string; stopId?: string; bbox?: { north: number; west: number; south: number; east: number } };
+  disruptions: Disruption[];
+  sources: { departures: number; trips: number };
+}
+
+/**
+ * One direction of a line with its ordered stops
+ */
+export interface LineDirection {
+  direction?: string;
+  tripId: string;
+  origin: { id: string; name: string };
+  destination: { id: string; name: string };
+  stops: Array<{ id: string; name: string; latitude?: number; longitude?: number }>;
+  polyline?: Polyline;
+}
+
+/**
+ * Result of a line lookup
+ */
+export interface LineInfoResult {
+  line: {
+    id: string;
+    name: string;
+    mode: Line['mode'];
+    product: Line['product'];
+    productName?: string;
+    operator?: string;
+  };
+  directions: LineDirection[];
+}
+
+/**
+ * Lightweight trip returned by a trip search
+ */
+export interface TripSummary {
+  tripId: string;
+  line?: string;
+  product?: Line['product'];
+  fahrtNr?: string;
+  operator?: string;
+  direction?: string;
+  origin?: { id: string; name: string };
+  destination?: { id: string; name: string };
+  departure?: string;
+  departureDelay?: number;
+  arrival?: string;
+  arrivalDelay?: number;
+}
+
+/**
+ * Result of a trip search
+ */
+export interface TripsSearchResult {
+  trips: TripSummary[];
+}
+
+/**
+ * A stop reached from an origin, with the travel time to get there
+ */
+export interface ReachableStop {
+  id: string;
+  name: string;
+  latitude?: number;
+  longitude?: number;
+  /** Travel time in minutes */
+  duration: number;
+}
+
+/**
+ * Stops reached within a travel time range
+ */
+export interface ReachableBucket {
+  minDuration: number;
+  maxDuration: number;
+  stops: ReachableStop[];
+}
+
+/**
+ * GeoJSON FeatureCollection of reached stops
+ */
+export interface ReachableFeatureCollection {
+  type: 'FeatureCollection';
   features: Array<{
     type: 'Feature';
-    properties: {
-      tripId: string;
-      line: Line;
-      direction?: string;
-      delay?: number;
-    };
-    geometry: {
-      type: 'Point';
-      coordinates: [number, number];
-    };
+    geometry: { type: 'Point'; coordinates: [number, number] };
+    properties: { id: string; name: string; duration: number };
   }>;
 }
 
+/**
+ * Result of a reachability lookup
+ */
+export interface ReachableResult {
+  origin: { address: string; latitude: number; longitude: number };
+  maxDuration: number;
+  buckets: ReachableBucket[];
+  geojson?: ReachableFeatureCollection;
+}
+
+/**
+ * A change in a journey leg detected by a refresh
+ */
+export interface LegChange {
+  leg: number;
+  line?: string;
+  field: 'departureDelay' | 'arrivalDelay' | 'departurePlatform' | 'arrivalPlatform' | 'cancelled' | 'reachable' | 'legs';
+  previous: string | number | boolean | null;
+  current: string | number | boolean | null;
+}
+
+/**
+ * Result of refreshing a journey
+ */
+export interface JourneyRefreshResult {
+  journey: Journey;
+  /** False when the original journey was not planned by this server, so no diff is available */
+  compared: boolean;
+  changes: LegChange[];
+}
+
 /**
  * API Error response
  */
@@ -0,0 +1,513 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas mirroring the BVG API types in bvg.ts.
+ *
+ * Optional fields accept null because the upstream sends null for missing
+ * realtime data. Objects pass unknown properties through so that newer
+ * upstream fields are not stripped.
+ */
+
+export const ProductsSchema = z.object({
+  suburban: z.boolean().optional(),
+  subway: z.boolean().optional(),
+  tram: z.boolean().optional(),
+  bus: z.boolean().optional(),
+  ferry: z.boolean().optional(),
+  express: z.boolean().optional(),
+  regional: z.boolean().optional()
+}).passthrough();
+
+export const ProductSchema = z.enum(['suburban', 'subway', 'tram', 'bus', 'ferry', 'express', 'regional']);
+
+export const OperatorSchema = z.object({
+  type: z.literal('operator'),
+  id: z.string(),
+  name: z.string()
+}).passthrough();
+
+export const LineSchema = z.object({
+  type: z.literal('line'),
+  id: z.string(),
+  fahrtNr: z.string().nullish(),
+  name: z.string(),
+  public: z.boolean(),
+  adminCode: z.string().nullish(),
+  productName: z.string().nullish(),
+  mode: z.enum(['train', 'bus', 'watercraft', 'taxi', 'gondola', 'aircraft', 'car', 'bicycle', 'walking']),
+  product: ProductSchema,
+  operator: OperatorSchema.nullish()
+}).passthrough();
+
+export const CoordinatesSchema = z.object({
+  type: z.literal('location'),
+  latitude: z.number(),
+  longitude: z.number()
+}).passthrough();
+
+export const LocationSchema = z.object({
+  type: z.enum(['location', 'stop', 'station', 'poi', 'address']),
+  id: z.string().nullish(),
+  name: z.string().nullish(),
+  latitude: z.number().nullish(),
+  longitude: z.number().nullish(),
+  address: z.string().nullish(),
+  poi: z.boolean().nullish(),
+  distance: z.number().nullish(),
+  products: ProductsSchema.nullish()
+}).passthrough();
+
+/**
+ * A stop or station without its parent station
+ */
+export const StationSchema = LocationSchema.extend({
+  type: z.enum(['stop', 'station']),
+  id: z.string(),
+  name: z.string(),
+  location: CoordinatesSchema,
+  products: ProductsSchema,
+  lines: z.array(LineSchema).nullish()
+}).passthrough();
+
+export const StopSchema = StationSchema.extend({
+  station: StationSchema.nullish()
+}).passthrough();
+
+export const RemarkSchema = z.object({
+  type: z.enum(['hint', 'warning', 'status']),
+  id: z.string().nullish(),
+  code: z.string().nullish(),
+  text: z.string(),
+  summary: z.string().nullish(),
+  priority: z.number().nullish(),
+  category: z.number().nullish(),
+  validFrom: z.string().nullish(),
+  validUntil: z.string().nullish(),
+  modified: z.string().nullish()
+}).passthrough();
+
+export const PriceSchema = z.object({
+  amount: z.number(),
+  currency: z.string(),
+  hint: z.string().nullish()
+}).passthrough();
+
+export const PolylineSchema = z.object({
+  type: z.string(),
+  features: z.array(z.object({
+    type: z.literal('Feature'),
+    geometry: z.object({
+      type: z.string(),
+      coordinates: z.array(z.unknown())
+    }).passthrough()
+  }).passthrough())
+}).passthrough();
+
+export const DepartureSchema = z.object({
+  tripId: z.string(),
+  stop: StopSchema,
+  when: z.string().nullish(),
+  plannedWhen: z.string().nullish(),
+  delay: z.number().nullish(),
+  platform: z.string().nullish(),
+  plannedPlatform: z.string().nullish(),
+  prognosisType: z.enum(['prognosis', 'calculation']).nullish(),
+  cancelled: z.boolean().nullish(),
+  direction: z.string().nullish(),
+  provenance: z.string().nullish(),
+  line: LineSchema,
+  remarks: z.array(RemarkSchema).nullish(),
+  origin: StopSchema.nullish(),
+  destination: StopSchema.nullish(),
+  scheduledOnly: z.boolean().nullish()
+}).passthrough();
+
+export const ArrivalSchema = DepartureSchema;
+
+export const StopoverSchema = z.object({
+  stop: StopSchema,
+  arrival: z.string().nullish(),
+  plannedArrival: z.string().nullish(),
+  arrivalDelay: z.number().nullish(),
+  departure: z.string().nullish(),
+  plannedDeparture: z.string().nullish(),
+  departureDelay: z.number().nullish(),
+  platform: z.string().nullish(),
+  plannedPlatform: z.string().nullish(),
+  cancelled: z.boolean().nullish(),
+  remarks: z.array(RemarkSchema).nullish()
+}).passthrough();
+
+export const LegSchema = z.object({
+  // Walking legs may start or end at an address instead of a stop
+  origin: z.union([StopSchema, LocationSchema]),
+  destination: z.union([StopSchema, LocationSchema]),
+  departure: z.string().nullish(),
+  plannedDeparture: z.string().nullish(),
+  departureDelay: z.number().nullish(),
+  arrival: z.string().nullish(),
+  plannedArrival: z.string().nullish(),
+  arrivalDelay: z.number().nullish(),
+  reachable: z.boolean().nullish(),
+  cancelled: z.boolean().nullish(),
+  tripId: z.string().nullish(),
+  line: LineSchema.nullish(),
+  direction: z.string().nullish(),
+  arrivalPlatform: z.string().nullish(),
+  plannedArrivalPlatform: z.string().nullish(),
+  departurePlatform: z.string().nullish(),
+  plannedDeparturePlatform: z.string().nullish(),
+  stopovers: z.array(StopoverSchema).nullish(),
+  distance: z.number().nullish(),
+  public: z.boolean().nullish(),
+  walking: z.boolean().nullish(),
+  transfer: z.boolean().nullish(),
+  loadFactor: z.string().nullish(),
+  remarks: z.array(RemarkSchema).nullish(),
+  polyline: PolylineSchema.nullish()
+}).passthrough();
+
+/**
+ * The journey type is spelled out because the inferred type is too large
+ * for the declaration emitter
+ */
+export interface JourneyData {
+  type: 'journey';
+  legs: z.infer<typeof LegSchema>[];
+  refreshToken?: string | null;
+  price?: z.infer<typeof PriceSchema> | null;
+  scheduledDays?: Record<string, boolean> | null;
+  [key: string]: unknown;
+}
+
+export const JourneySchema: z.ZodType<JourneyData, z.ZodTypeDef, unknown> = z.object({
+  type: z.literal('journey'),
+  legs: z.array(LegSchema),
+  refreshToken: z.string().nullish(),
+  price: PriceSchema.nullish(),
+  scheduledDays: z.record(z.boolean()).nullish()
+}).passthrough();
+
+export const TripSchema = z.object({
+  id: z.string(),
+  origin: StopSchema,
+  destination: StopSchema,
+  departure: z.string().nullish(),
+  plannedDeparture: z.string().nullish(),
+  departureDelay: z.number().nullish(),
+  arrival: z.string().nullish(),
+  plannedArrival: z.string().nullish(),
+  arrivalDelay: z.number().nullish(),
+  line: LineSchema,
+  direction: z.string().nullish(),
+  cancelled: z.boolean().nullish(),
+  stopovers: z.array(StopoverSchema).nullish(),
+  remarks: z.array(RemarkSchema).nullish(),
+  polyline: PolylineSchema.nullish(),
+  scheduledOnly: z.boolean().nullish()
+}).passthrough();
+
+/**
+ * Spelled out for the same reason as JourneyData
+ */
+export interface MovementFrameData {
+  origin: z.infer<typeof StopSchema>;
+  destination: z.infer<typeof StopSchema>;
+  t: number;
+  [key: string]: unknown;
+}
+
+export interface MovementData {
+  tripId: string;
+  line: z.infer<typeof LineSchema>;
+  direction?: string | null;
+  location: z.infer<typeof CoordinatesSchema>;
+  nextStopovers?: z.infer<typeof StopoverSchema>[] | null;
+  frames?: MovementFrameData[] | null;
+  polyline?: z.infer<typeof PolylineSchema> | null;
+  [key: string]: unknown;
+}
+
+export const MovementFrameSchema: z.ZodType<MovementFrameData, z.ZodTypeDef, unknown> = z.object({
+  origin: StopSchema,
+  destination: StopSchema,
+  t: z.number()
+}).passthrough();
+
+export const MovementSchema: z.ZodType<MovementData, z.ZodTypeDef, unknown> = z.object({
+  tripId: z.string(),
+  line: LineSchema,
+  direction: z.string().nullish(),
+  location: CoordinatesSchema,
+  nextStopovers: z.array(StopoverSchema).nullish(),
+  frames: z.array(MovementFrameSchema).nullish(),
+  polyline: PolylineSchema.nullish()
+}).passthrough();
+
+export const RadarResultSchema: z.ZodType<
+  { movements: MovementData[]; realtimeDataUpdatedAt?: number | null; [key: string]: unknown },
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  movements: z.array(MovementSchema),
+  realtimeDataUpdatedAt: z.number().nullish()
+}).passthrough();
+
+const TrackStopSchema = z.object({ id: z.string(), name: z.string() });
+
+export const VehicleTrackSchema = z.object({
+  tripId: z.string(),
+  line: z.string().optional(),
+  direction: z.string().optional(),
+  samples: z.array(z.object({
+    at: z.string(),
+    visible: z.boolean(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+    nextStop: TrackStopSchema.optional(),
+    delay: z.number().optional()
+  })),
+  distanceTravelled: z.number(),
+  stopsPassed: z.array(TrackStopSchema),
+  delayTrend: z.enum(['increasing', 'decreasing', 'stable', 'unknown']),
+  nextStop: TrackStopSchema.extend({
+    arrival: z.string().optional(),
+    delay: z.number().optional()
+  }).optional()
+});
+
+export const RadarOutputSchema: z.ZodType<
+  {
+    movements: MovementData[];
+    realtimeDataUpdatedAt?: number | null;
+    track?: z.infer<typeof VehicleTrackSchema>;
+    [key: string]: unknown;
+  },
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  movements: z.array(MovementSchema),
+  realtimeDataUpdatedAt: z.number().nullish(),
+  track: VehicleTrackSchema.optional()
+}).passthrough();
+
+export const ReachableStationsSchema = z.array(z.object({
+  duration: z.number(),
+  stations: z.array(StopSchema)
+}).passthrough());
+
+const ChangeValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const LegChangeSchema = z.object({
+  leg: z.number(),
+  line: z.string().optional(),
+  field: z.enum(['departureDelay', 'arrivalDelay', 'departurePlatform', 'arrivalPlatform', 'cancelled', 'reachable', 'legs']),
+  previous: ChangeValueSchema,
+  current: ChangeValueSchema
+});
+
+/**
+ * Structured tool outputs. MCP requires an object at the top level,
+ * so list results are wrapped in a named property.
+ */
+export const LocationsOutputSchema = z.object({ locations: z.array(LocationSchema) });
+export const DeparturesOutputSchema = z.object({ departures: z.array(DepartureSchema) });
+export const ArrivalsOutputSchema = z.object({ arrivals: z.array(ArrivalSchema) });
+export const JourneysOutputSchema: z.ZodType<
+  { journeys: JourneyData[]; earlierRef?: string | null; laterRef?: string | null },
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  journeys: z.array(JourneySchema),
+  earlierRef: z.string().nullish(),
+  laterRef: z.string().nullish()
+});
+
+export const JourneyRefreshOutputSchema: z.ZodType<
+  { journey: JourneyData; compared: boolean; changes: z.infer<typeof LegChangeSchema>[] },
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  journey: JourneySchema,
+  compared: z.boolean(),
+  changes: z.array(LegChangeSchema)
+});
+
+export const ResolvedLocationSchema = z.object({
+  input: z.string(),
+  kind: z.enum(['stop-id', 'stop', 'address', 'poi', 'coordinates']),
+  id: z.string().optional(),
+  name: z.string().optional(),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  alternatives: z.array(z.object({
+    type: LocationSchema.shape.type,
+    id: z.string().nullish(),
+    name: z.string().nullish()
+  })).optional(),
+  savedPlace: z.string().optional()
+});
+
+export const FacilityOutageSchema = z.object({
+  facility: z.enum(['elevator', 'escalator']),
+  stopId: z.string().optional(),
+  stopName: z.string().optional(),
+  leg: z.number().optional(),
+  text: z.string()
+});
+
+export const StopAccessibilitySchema = z.object({
+  available: z.boolean(),
+  reason: z.string().optional(),
+  remarks: z.array(z.string()).optional(),
+  outages: z.array(FacilityOutageSchema).optional()
+});
+
+export const StopDetailsOutputSchema = StopSchema.extend({
+  accessibility: StopAccessibilitySchema.optional()
+}).passthrough();
+
+export const JourneyAccessibilitySchema = z.object({
+  stops: z.array(z.object({ id: z.string(), name: z.string(), remarks: z.array(z.string()) })),
+  outages: z.array(FacilityOutageSchema),
+  affected: z.boolean()
+});
+
+export const JourneyPlanOutputSchema: z.ZodType<
+  {
+    journeys: JourneyData[];
+    earlierRef?: string | null;
+    laterRef?: string | null;
+    resolved: {
+      from: z.infer<typeof ResolvedLocationSchema>;
+      to: z.infer<typeof ResolvedLocationSchema>;
+      via?: z.infer<typeof ResolvedLocationSchema>;
+    };
+    accessibility?: z.infer<typeof JourneyAccessibilitySchema>[];
+    replanned?: boolean;
+  },
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  journeys: z.array(JourneySchema),
+  earlierRef: z.string().nullish(),
+  laterRef: z.string().nullish(),
+  resolved: z.object({
+    from: ResolvedLocationSchema,
+    to: ResolvedLocationSchema,
+    via: ResolvedLocationSchema.optional()
+  }),
+  accessibility: z.array(JourneyAccessibilitySchema).optional(),
+  replanned: z.boolean().optional()
+});
+
+export const DepartureMonitorOutputSchema = z.object({
+  stops: z.array(z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    distance: z.number().optional(),
+    error: z.string().optional()
+  })),
+  departures: z.array(DepartureSchema.extend({
+    walkingDistance: z.number().optional()
+  }).passthrough())
+});
+
+export const DisruptionsOutputSchema = z.object({
+  scope: z.object({
+    line: z.string().optional(),
+    stopId: z.string().optional(),
+    bbox: z.object({ north: z.number(), west: z.number(), south: z.number(), east: z.number() }).optional()
+  }),
+  disruptions: z.array(z.object({
+    type: RemarkSchema.shape.type,
+    severity: z.enum(['high', 'medium', 'low']),
+    code: z.string().optional(),
+    summary: z.string().optional(),
+    text: z.string(),
+    validFrom: z.string().optional(),
+    validUntil: z.string().optional(),
+    lines: z.array(z.string()),
+    stops: z.array(z.object({ id: z.string(), name: z.string() }))
+  })),
+  sources: z.object({ departures: z.number(), trips: z.number() })
+});
+
+const StopRefSchema = z.object({ id: z.string(), name: z.string() });
+
+export const LineInfoOutputSchema = z.object({
+  line: z.object({
+    id: z.string(),
+    name: z.string(),
+    mode: LineSchema.shape.mode,
+    product: ProductSchema,
+    productName: z.string().optional(),
+    operator: z.string().optional()
+  }),
+  directions: z.array(z.object({
+    direction: z.string().optional(),
+    tripId: z.string(),
+    origin: StopRefSchema,
+    destination: StopRefSchema,
+    stops: z.array(StopRefSchema.extend({
+      latitude: z.number().optional(),
+      longitude: z.number().optional()
+    })),
+    polyline: PolylineSchema.optional()
+  }))
+});
+
+export const TripsSearchOutputSchema = z.object({
+  trips: z.array(z.object({
+    tripId: z.string(),
+    line: z.string().optional(),
+    product: ProductSchema.optional(),
+    fahrtNr: z.string().optional(),
+    operator: z.string().optional(),
+    direction: z.string().optional(),
+    origin: StopRefSchema.optional(),
+    destination: StopRefSchema.optional(),
+    departure: z.string().optional(),
+    departureDelay: z.number().optional(),
+    arrival: z.string().optional(),
+    arrivalDelay: z.number().optional()
+  }))
+});
+
+const ReachableStopSchema = StopRefSchema.extend({
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  duration: z.number()
+});
+
+export const ReachableOutputSchema = z.object({
+  origin: z.object({ address: z.string(), latitude: z.number(), longitude: z.number() }),
+  maxDuration: z.number(),
+  buckets: z.array(z.object({
+    minDuration: z.number(),
+    maxDuration: z.number(),
+    stops: z.array(ReachableStopSchema)
+  })),
+  geojson: z.object({
+    type: z.literal('FeatureCollection'),
+    features: z.array(z.object({
+      type: z.literal('Feature'),
+      geometry: z.object({ type: z.literal('Point'), coordinates: z.tuple([z.number(), z.number()]) }),
+      properties: z.object({ id: z.string(), name: z.string(), duration: z.number() })
+    }))
+  }).optional()
+});
+
+export const SavedPlaceSchema = z.object({
+  name: z.string(),
+  kind: z.enum(['stop', 'address', 'coordinates']),
+  stopId: z.string().optional(),
+  label: z.string().optional(),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  products: z.array(ProductSchema).optional(),
+  accessibility: z.enum(['partial', 'complete']).optional(),
+  savedAt: z.string()
+});
+
+export const PlacesOutputSchema = z.object({ places: z.array(SavedPlaceSchema) });
@@ -0,0 +1,155 @@
+import { FacilityOutage, Journey, JourneyAccessibility, Location, Remark, Stop } from '../types/bvg.js';
+
+/**
+ * Minimum transfer time in minutes for `walkingSpeed: 'slow'`
+ */
+export const SLOW_WALKING_TRANSFER_TIME = 10;
+
+const FACILITY_PATTERN = /aufzug|fahrstuhl|\blifts?\b|elevator|fahrtreppe|rolltreppe|escalator|rampe|\bramps?\b|barrierefrei|stufenfrei|step-free|barrier-free|rollstuhl|wheelchair/i;
+const ESCALATOR_PATTERN = /fahrtreppe|rolltreppe|escalator/i;
+const ELEVATOR_PATTERN = /aufzug|fahrstuhl|\blifts?\b|elevator/i;
+const OUTAGE_PATTERN = /au(ß|ss)er betrieb|defekt|gestört|störung|ausgefallen|nicht (in )?betrieb|nicht (nutzbar|verfügbar)|gesperrt|out of (service|order|operation)|not (in )?(service|operation|working|available)|unavailable|broken|closed/i;
+
+function remarkText(remark: Remark): string {
+  return remark.summary && !remark.text.includes(remark.summary)
+    ? `${remark.summary}: ${remark.text}`
+    : remark.text;
+}
+
+/**
+ * Whether a remark is about elevators, escalators, ramps or step-free access
+ */
+export function isFacilityRemark(remark: Remark): boolean {
+  return FACILITY_PATTERN.test(remarkText(remark));
+}
+
+/**
+ * The facility a remark reports as out of service, if any
+ */
+export function outageFacility(remark: Remark): FacilityOutage['facility'] | undefined {
+  const text = remarkText(remark);
+  if (!OUTAGE_PATTERN.test(text)) {
+    return undefined;
+  }
+  if (ELEVATOR_PATTERN.test(text)) {
+    return 'elevator';
+  }
+  return ESCALATOR_PATTERN.test(text) ? 'escalator' : undefined;
+}
+
+/**
+ * Outages reported in remarks, attributed to a stop and/or leg
+ */
+export function facilityOutages(
+  remarks: Remark[] | null | undefined,
+  where: { stop?: Stop; leg?: number }
+): FacilityOutage[] {
+  return (remarks ?? []).flatMap(remark => {
+    const facility = outageFacility(remark);
+    return facility
+      ? [{
+        facility,
+        ...(where.stop ? { stopId: where.stop.id, stopName: where.stop.name } : {}),
+        ...(where.leg !== undefined ? { leg: where.leg } : {}),
+        text: remarkText(remark)
+      }]
+      : [];
+  });
+}
+
+/**
+ * Texts of the facility remarks, without duplicates
+ */
+export function facilityRemarkTexts(remarks: Remark[] | null | undefined): string[] {
+  return Array.from(new Set((remarks ?? []).filter(isFacilityRemark).map(remarkText)));
+}
+
+/**
+ * Stations are compared by their parent station, so that an outage reported
+ * on one platform also affects changes on another platform of the station
+ */
+function stationKey(stop: Stop): string {
+  return stop.station?.id ?? stop.id;
+}
+
+function isStop(location: Stop | Location | undefined): location is Stop {
+  return location !== undefined && (location.type === 'stop' || location.type === 'station') && Boolean(location.id);
+}
+
+/**
+ * Station name as remarks spell it, "S+U Friedrichstr. (Berlin)" → "friedrichstr",
+ * which also matches "Friedrichstraße"
+ */
+function stationNameCore(name: string): string {
+  return name.replace(/\([^)]*\)/g, '').replace(/^\s*(S\+U|S|U)\s+/, '').replace(/[.\s]+$/, '').trim().toLowerCase();
+}
+
+/**
+ * Whether a remark text names one of the stations
+ */
+function mentionsStation(text: string, names: string[]): boolean {
+  const lower = text.toLowerCase();
+  return names.some(name => {
+    const core = stationNameCore(name);
+    return core.length >= 3 && lower.includes(core);
+  });
+}
+
+/**
+ * Accessibility of a journey: facility remarks of the stations where it
+ * boards, alights or changes, and elevator or escalator outages reported on
+ * its legs and stopovers. The journey is affected when an outage is at one of
+ * those stations; outages reported on a leg count when their text names one
+ * of them. Outages at stations the vehicle only passes through are reported
+ * but do not affect it.
+ * Stopover remarks are only available when the journey includes stopovers.
+ */
+export function journeyAccessibility(journey: Journey): JourneyAccessibility {
+  const rides = journey.legs
+    .map((leg, index) => ({ leg, number: index + 1 }))
+    .filter(({ leg }) => !leg.walking);
+
+  const stops = new Map<string, JourneyAccessibility['stops'][number]>();
+  const addStop = (stop: Stop, remarks: Remark[] | null | undefined) => {
+    const key = stationKey(stop);
+    const entry = stops.get(key) ?? { id: stop.station?.id ?? stop.id, name: stop.station?.name ?? stop.name, remarks: [] };
+    entry.remarks = Array.from(new Set([...entry.remarks, ...facilityRemarkTexts(remarks)]));
+    stops.set(key, entry);
+  };
+
+  const outages: FacilityOutage[] = [];
+  rides.forEach(({ leg, number }) => {
+    const stopovers = leg.stopovers ?? [];
+    const first = stopovers[0];
+    const last = stopovers[stopovers.length - 1];
+
+    if (isStop(leg.origin)) addStop(leg.origin, first?.stop?.id === leg.origin.id ? first.remarks : undefined);
+    if (isStop(leg.destination)) addStop(leg.destination, last?.stop?.id === leg.destination.id ? last.remarks : undefined);
+
+    outages.push(...facilityOutages(leg.remarks, { leg: number }));
+    stopovers.forEach(stopover => {
+      if (isStop(stopover.stop)) {
+        outages.push(...facilityOutages(stopover.remarks, { stop: stopover.stop, leg: number }));
+      }
+    });
+  });
+
+  const usedStations = new Set(stops.keys());
+  const usedNames = Array.from(stops.values()).map(stop => stop.name);
+  const stationOf = new Map(journey.legs.flatMap(leg => leg.stopovers ?? [])
+    .filter(stopover => isStop(stopover.stop))
+    .map(stopover => [stopover.stop.id, stationKey(stopover.stop)]));
+  const uniqueOutages = outages.filter((outage, index) =>
+    outages.findIndex(other => other.stopId === outage.stopId && other.text === outage.text) === index
+  );
+
+  return {
+    stops: Array.from(stops.values()),
+    outages: uniqueOutages,
+    affected: uniqueOutages.some(outage =>
+      outage.stopId === undefined
+        ? mentionsStation(outage.text, usedNames)
+        : usedStations.has(stationOf.get(outage.stopId) ?? outage.stopId)
+    )
+  };
+}
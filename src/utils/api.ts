@@ -1,22 +1,73 @@
-import { ApiError } from '../types/bvg.js';
+import { ApiError, Products } from '../types/bvg.js';
+import { ResponseCache, CacheStats } from './cache.js';
+import { FixtureMode, FixtureStore } from './fixtures.js';
+import { BVG_API_BASE_URL, config, DEFAULT_USER_AGENT, NetworkConfig } from './config.js';
+import {
+  BvgApiError,
+  InvalidRequestError,
+  NotFoundError,
+  RateLimitedError,
+  UpstreamUnavailableError
+} from './errors.js';
+
+export { BVG_API_BASE_URL };
+
+/**
+ * Upper bound for a single retry delay, longer Retry-After values fail immediately
+ */
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+/**
+ * Options for the BVG API client
+ */
+export interface BvgApiClientOptions {
+  /** Response cache, or false to disable caching */
+  cache?: ResponseCache | false;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Number of retries on 429 and 5xx responses (default: 2) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in milliseconds (default: 500) */
+  retryBaseDelayMs?: number;
+  /** Record upstream responses to, or replay them from, a fixture store */
+  fixtures?: FixtureStore;
+  /** User-Agent header sent upstream */
+  userAgent?: string;
+}
 
 /**
- * Base URL for the BVG API
+ * What the tool executors need from an API client. Executors take one as
+ * their last argument and default to the shared `bvgApi` instance.
  */
-export const BVG_API_BASE_URL = 'https://v6.bvg.transport.rest';
+export interface BvgClient {
+  get<T>(endpoint: string, params?: Record<string, string | number | boolean>): Promise<T>;
+}
 
 /**
  * HTTP client for BVG API calls with error handling
  */
-export class BvgApiClient {
+export class BvgApiClient implements BvgClient {
   private baseUrl: string;
+  private cache?: ResponseCache;
+  private inFlight = new Map<string, Promise<unknown>>();
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private fixtures?: FixtureStore;
+  private userAgent: string;
 
-  constructor(baseUrl: string = BVG_API_BASE_URL) {
+  constructor(baseUrl: string = BVG_API_BASE_URL, options: BvgApiClientOptions = {}) {
     this.baseUrl = baseUrl;
+    this.cache = options.cache === false ? undefined : (options.cache ?? new ResponseCache());
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.fixtures = options.fixtures;
+    this.userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
   }
 
   /**
-   * Make a GET request to the BVG API
+   * Make a GET request to the BVG API, served from cache when possible
    */
   async get<T>(endpoint: string, params?: Record<string, string | number | boolean>): Promise<T> {
     const url = new URL(endpoint, this.baseUrl);
@@ -30,32 +81,160 @@ export class BvgApiClient {
       });
     }
 
+    const key = url.toString();
+    const ttl = this.cache ? this.cache.ttlFor(url.pathname) : 0;
+
+    if (this.cache && ttl > 0) {
+      const cached = this.cache.get<T>(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+    }
+
+    // Coalesce identical requests that are already in flight, each caller gets its own copy
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.cache?.recordCoalesced();
+      return pending.then(data => structuredClone(data) as T);
+    }
+
+    const request = this.fetchJson<T>(url)
+      .then(data => {
+        this.cache?.set(key, data, ttl);
+        return data;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Cache hit/miss counters, undefined when caching is disabled
+   */
+  getCacheStats(): CacheStats | undefined {
+    return this.cache?.stats();
+  }
+
+  /**
+   * Drop all cached responses
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Perform the HTTP request, retrying on rate limits and server errors
+   */
+  private async fetchJson<T>(url: URL): Promise<T> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        return await this.fetchOnce<T>(url);
+      } catch (error) {
+        const retryable = error instanceof RateLimitedError || error instanceof UpstreamUnavailableError;
+        if (!retryable || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        const delay = error instanceof RateLimitedError && error.retryAfterMs !== undefined
+          ? error.retryAfterMs
+          : this.retryBaseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25);
+
+        // Don't sit on a request longer than the upstream would be useful
+        if (delay > MAX_RETRY_DELAY_MS) {
+          throw error;
+        }
+
+        attempt++;
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Perform a single HTTP request with a timeout and map failures to typed errors
+   */
+  private async fetchOnce<T>(url: URL): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
     try {
-      const response = await fetch(url.toString(), {
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'mcp-bvg-server/1.0.0'
+      if (this.fixtures?.mode === 'replay') {
+        response = await this.fixtures.replay(url);
+      } else {
+        response = await fetch(url.toString(), {
+          headers: {
+            'Accept': 'application/json',
+            'User-Agent': this.userAgent
+          },
+          signal: controller.signal
+        });
+        if (this.fixtures?.mode === 'record') {
+          await this.fixtures.record(url, response.clone());
         }
-      });
+      }
+    } catch (error) {
+      clearTimeout(timer);
+      if (controller.signal.aborted) {
+        throw new UpstreamUnavailableError(`BVG API did not respond within ${this.timeoutMs}ms`);
+      }
+      throw new UpstreamUnavailableError(
+        `Could not reach BVG API: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
 
+    try {
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        // Error bodies are only used for their message, when they are JSON at all
+        throw this.errorForStatus(response, await response.json().catch(() => undefined));
       }
 
-      const data = await response.json();
+      const data: unknown = await response.json();
 
       // Check if the API returned an error
       if (this.isApiError(data)) {
-        throw new Error(`BVG API error: ${data.msg}`);
+        throw new InvalidRequestError(`BVG API error: ${data.msg}`, data.statusCode);
       }
 
-      return data;
+      return data as T;
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`Failed to fetch from BVG API: ${error.message}`);
+      if (error instanceof BvgApiError) {
+        throw error;
       }
-      throw new Error('Unknown error occurred while fetching from BVG API');
+      throw new UpstreamUnavailableError(
+        `Invalid response from BVG API: ${error instanceof Error ? error.message : String(error)}`,
+        response.status
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Map a non-2xx response to the matching typed error
+   */
+  private errorForStatus(response: Response, body: unknown): BvgApiError {
+    const status = response.status;
+    const detail = this.isApiError(body) ? body.msg : response.statusText || 'no details';
+
+    if (status === 429) {
+      return new RateLimitedError(
+        `BVG API rate limit exceeded: ${detail}`,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    if (status === 404) {
+      return new NotFoundError(`Not found: ${detail}`, status);
+    }
+    if (status >= 500) {
+      return new UpstreamUnavailableError(`BVG API server error (HTTP ${status}): ${detail}`, status);
     }
+    return new InvalidRequestError(`BVG API rejected the request (HTTP ${status}): ${detail}`, status);
   }
 
   /**
@@ -67,9 +246,65 @@ export class BvgApiClient {
 }
 
 /**
- * Default BVG API client instance
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+const fixtureMode = process.env.BVG_FIXTURES_MODE as FixtureMode | undefined;
+
+/**
+ * Create the client of a configured network.
+ * Set BVG_CACHE_DISABLED=1 to bypass the cache or BVG_CACHE_FILE to persist the
+ * default network's cache to disk, and BVG_FIXTURES_MODE=record|replay with
+ * BVG_FIXTURES_DIR to record or replay fixtures of the default network.
  */
-export const bvgApi = new BvgApiClient();
+function createNetworkClient(network: NetworkConfig): BvgApiClient {
+  const isDefault = network.name === config.defaultNetwork;
+
+  return new BvgApiClient(network.baseUrl, {
+    cache: process.env.BVG_CACHE_DISABLED === '1'
+      ? false
+      : new ResponseCache({ filePath: isDefault ? process.env.BVG_CACHE_FILE : undefined }),
+    timeoutMs: network.timeoutMs,
+    maxRetries: network.maxRetries,
+    userAgent: network.userAgent,
+    fixtures: isDefault && (fixtureMode === 'record' || fixtureMode === 'replay')
+      ? new FixtureStore(process.env.BVG_FIXTURES_DIR ?? 'test/fixtures', fixtureMode)
+      : undefined
+  });
+}
+
+/**
+ * One client per configured network, by network name
+ */
+export const networkClients = new Map<string, BvgApiClient>(
+  config.networks.map(network => [network.name, createNetworkClient(network)])
+);
+
+/**
+ * Client of the default network
+ */
+export const bvgApi = networkClients.get(config.defaultNetwork)!;
 
 /**
  * Format a date for API consumption
@@ -85,20 +320,51 @@ export function parseCoordinates(coords: string): { latitude: number; longitude:
   const [lat, lon] = coords.split(',').map(s => parseFloat(s.trim()));
 
   if (isNaN(lat) || isNaN(lon)) {
-    throw new Error('Invalid coordinates format. Expected "latitude,longitude"');
+    throw new InvalidRequestError('Invalid coordinates format. Expected "latitude,longitude"');
   }
 
   if (lat < -90 || lat > 90) {
-    throw new Error('Latitude must be between -90 and 90');
+    throw new InvalidRequestError('Latitude must be between -90 and 90');
   }
 
   if (lon < -180 || lon > 180) {
-    throw new Error('Longitude must be between -180 and 180');
+    throw new InvalidRequestError('Longitude must be between -180 and 180');
   }
 
   return { latitude: lat, longitude: lon };
 }
 
+/**
+ * Great-circle distance between two points in meters
+ */
+export function distanceBetween(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return Math.round(2 * 6371000 * Math.asin(Math.sqrt(h)));
+}
+
+/**
+ * All product types served by the BVG API
+ */
+export const PRODUCTS: Array<keyof Products> = ['suburban', 'subway', 'tram', 'bus', 'ferry', 'express', 'regional'];
+
+/**
+ * Convert a list of allowed products into the upstream product toggles,
+ * e.g. ['subway'] becomes { subway: true, bus: false, ... }
+ */
+export function productFilterParams(products: Array<keyof Products>): Record<keyof Products, boolean> {
+  return Object.fromEntries(
+    PRODUCTS.map(product => [product, products.includes(product)])
+  ) as Record<keyof Products, boolean>;
+}
+
 /**
  * Validate stop ID format
  */
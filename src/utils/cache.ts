@@ -0,0 +1,184 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+
+/**
+ * TTL rule matched against the endpoint path of a request
+ */
+export interface CacheTtlRule {
+  pattern: RegExp;
+  ttlMs: number;
+}
+
+/**
+ * Default TTLs per endpoint family. Rules are matched in order, first match wins.
+ * Static data (stops, locations) is cached for long periods, realtime data for seconds.
+ */
+export const DEFAULT_CACHE_TTLS: CacheTtlRule[] = [
+  { pattern: /^\/stops\/[^/]+\/(departures|arrivals)$/, ttlMs: 15 * 1000 },
+  { pattern: /^\/radar$/, ttlMs: 5 * 1000 },
+  { pattern: /^\/trips\/[^/]+$/, ttlMs: 15 * 1000 },
+  { pattern: /^\/journeys$/, ttlMs: 30 * 1000 },
+  { pattern: /^\/stops\/reachable-from$/, ttlMs: 5 * 60 * 1000 },
+  { pattern: /^\/stops\/[^/]+$/, ttlMs: 24 * 60 * 60 * 1000 },
+  { pattern: /^\/locations(\/nearby)?$/, ttlMs: 60 * 60 * 1000 }
+];
+
+/**
+ * Cache hit/miss counters
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  size: number;
+}
+
+export interface ResponseCacheOptions {
+  /** TTL rules, defaults to DEFAULT_CACHE_TTLS */
+  ttls?: CacheTtlRule[];
+  /** Optional JSON file used to persist entries across restarts */
+  filePath?: string;
+  /** Maximum number of entries kept in memory */
+  maxEntries?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-memory response cache with per-endpoint TTLs and optional disk persistence
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttls: CacheTtlRule[];
+  private filePath?: string;
+  private maxEntries: number;
+  private persistPending = false;
+  private counters = { hits: 0, misses: 0, coalesced: 0 };
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.ttls = options.ttls ?? DEFAULT_CACHE_TTLS;
+    this.filePath = options.filePath;
+    this.maxEntries = options.maxEntries ?? 1000;
+
+    if (this.filePath) {
+      this.load();
+    }
+  }
+
+  /**
+   * Get the TTL for an endpoint, 0 means the endpoint is not cached
+   */
+  ttlFor(endpoint: string): number {
+    const rule = this.ttls.find(r => r.pattern.test(endpoint));
+    return rule ? rule.ttlMs : 0;
+  }
+
+  /**
+   * Look up a cached value, counting a hit or miss. Callers get their own
+   * copy, so normalizing a response in place does not alter the cache.
+   */
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.counters.misses++;
+      return undefined;
+    }
+
+    // Re-insert so the Map iteration order reflects recency of use
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    this.counters.hits++;
+    return structuredClone(entry.value) as T;
+  }
+
+  /**
+   * Store a copy of a value for the given TTL, evicting the least recently used entries
+   */
+  set(key: string, value: unknown, ttlMs: number): void {
+    if (ttlMs <= 0) {
+      return;
+    }
+
+    // Re-insert so the Map iteration order reflects recency of use
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+
+    this.schedulePersist();
+  }
+
+  /**
+   * Record a request that was served by an identical in-flight request
+   */
+  recordCoalesced(): void {
+    this.counters.coalesced++;
+  }
+
+  /**
+   * Current hit/miss counters
+   */
+  stats(): CacheStats {
+    return { ...this.counters, size: this.entries.size };
+  }
+
+  /**
+   * Drop all entries and reset the counters
+   */
+  clear(): void {
+    this.entries.clear();
+    this.counters = { hits: 0, misses: 0, coalesced: 0 };
+    this.schedulePersist();
+  }
+
+  /**
+   * Load persisted entries, ignoring a missing or corrupt file
+   */
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf8')) as Record<string, CacheEntry>;
+      const now = Date.now();
+      Object.entries(data).forEach(([key, entry]) => {
+        if (entry && typeof entry.expiresAt === 'number' && entry.expiresAt > now) {
+          this.entries.set(key, entry);
+        }
+      });
+    } catch (error) {
+      console.error(`Ignoring unreadable cache file ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Write entries to disk once per tick
+   */
+  private schedulePersist(): void {
+    if (!this.filePath || this.persistPending) {
+      return;
+    }
+
+    this.persistPending = true;
+    setImmediate(() => {
+      this.persistPending = false;
+      const data = Object.fromEntries(this.entries);
+      writeFile(this.filePath!, JSON.stringify(data)).catch(error => {
+        console.error(`Failed to persist cache to ${this.filePath}:`, error);
+      });
+    });
+  }
+}
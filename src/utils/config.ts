@@ -0,0 +1,218 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+
+/**
+ * Default location of the config file
+ */
+export const DEFAULT_CONFIG_FILE = join(homedir(), '.mcp-bvg', 'config.json');
+
+/**
+ * Base URL of the BVG API, used for the default `bvg` network
+ */
+export const BVG_API_BASE_URL = 'https://v6.bvg.transport.rest';
+
+export const DEFAULT_USER_AGENT = 'mcp-bvg-server/1.0.0';
+
+/**
+ * A hafas-rest-api instance the tools can query
+ */
+export interface NetworkConfig {
+  name: string;
+  baseUrl: string;
+  userAgent: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface ServerConfig {
+  /** Network used when a tool call does not name one */
+  defaultNetwork: string;
+  /** Default language for results */
+  language: 'de' | 'en';
+  networks: NetworkConfig[];
+  /** Tool name patterns, "*" matches any characters */
+  tools: ToolFilter;
+  /** Interval between upstream polls for subscribed resources */
+  pollIntervalMs?: number;
+}
+
+export interface ToolFilter {
+  /** Only these tools are offered when set */
+  enabled?: string[];
+  /** These tools are never offered */
+  disabled?: string[];
+}
+
+const NetworkFileSchema = z.object({
+  baseUrl: z.string().url(),
+  userAgent: z.string().min(1).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  maxRetries: z.number().int().min(0).optional()
+});
+
+/**
+ * Shape of the config file. Top-level userAgent, timeoutMs and maxRetries
+ * apply to every network that does not set its own.
+ */
+const ConfigFileSchema = z.object({
+  defaultNetwork: z.string().min(1).optional(),
+  language: z.enum(['de', 'en']).optional(),
+  userAgent: z.string().min(1).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  maxRetries: z.number().int().min(0).optional(),
+  pollIntervalMs: z.number().int().positive().optional(),
+  networks: z.record(z.string().regex(/^[a-z][a-z0-9-]*$/), NetworkFileSchema).optional(),
+  tools: z.object({
+    enabled: z.array(z.string().min(1)).optional(),
+    disabled: z.array(z.string().min(1)).optional()
+  }).optional()
+});
+
+type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+function readConfigFile(filePath: string, required: boolean): ConfigFile {
+  if (!existsSync(filePath)) {
+    if (required) {
+      throw new Error(`Config file ${filePath} does not exist`);
+    }
+    return {};
+  }
+
+  try {
+    return ConfigFileSchema.parse(JSON.parse(readFileSync(filePath, 'utf8')));
+  } catch (error) {
+    throw new Error(`Invalid config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * "vbb=https://v6.vbb.transport.rest,db=https://v6.db.transport.rest".
+ * Only the first "=" separates, the URL may contain more.
+ */
+function parseNetworkList(value: string): Record<string, { baseUrl: string }> {
+  return Object.fromEntries(value.split(',').filter(entry => entry.trim()).map(entry => {
+    const separator = entry.indexOf('=');
+    const name = entry.slice(0, separator).trim();
+    const baseUrl = entry.slice(separator + 1).trim();
+    if (separator < 0 || !name || !baseUrl) {
+      throw new Error(`Invalid BVG_NETWORKS entry "${entry}", expected name=baseUrl`);
+    }
+    return [name, { baseUrl }];
+  }));
+}
+
+/**
+ * "bvg_radar,bvg_places_*"
+ */
+function optionalList(value: string | undefined): string[] | undefined {
+  return value === undefined ? undefined : value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value ? Number(value) : undefined;
+}
+
+/**
+ * Environment variables in the shape of the config file
+ */
+const EnvSchema = ConfigFileSchema.extend({
+  apiBaseUrl: NetworkFileSchema.shape.baseUrl.optional()
+});
+
+const ENV_VARIABLES: Record<keyof z.infer<typeof EnvSchema>, string> = {
+  defaultNetwork: 'BVG_NETWORK',
+  language: 'BVG_LANGUAGE',
+  userAgent: 'BVG_USER_AGENT',
+  timeoutMs: 'BVG_TIMEOUT_MS',
+  maxRetries: 'BVG_MAX_RETRIES',
+  pollIntervalMs: 'BVG_POLL_INTERVAL_MS',
+  networks: 'BVG_NETWORKS',
+  tools: 'BVG_TOOLS_ENABLED/BVG_TOOLS_DISABLED',
+  apiBaseUrl: 'BVG_API_BASE_URL'
+};
+
+/**
+ * Read the environment variables, validated by the same rules as the config file
+ */
+function readEnv(env: NodeJS.ProcessEnv): z.infer<typeof EnvSchema> {
+  const result = EnvSchema.safeParse({
+    defaultNetwork: env.BVG_NETWORK,
+    language: env.BVG_LANGUAGE,
+    userAgent: env.BVG_USER_AGENT,
+    timeoutMs: optionalNumber(env.BVG_TIMEOUT_MS),
+    maxRetries: optionalNumber(env.BVG_MAX_RETRIES),
+    pollIntervalMs: optionalNumber(env.BVG_POLL_INTERVAL_MS),
+    networks: env.BVG_NETWORKS ? parseNetworkList(env.BVG_NETWORKS) : undefined,
+    tools: { enabled: optionalList(env.BVG_TOOLS_ENABLED), disabled: optionalList(env.BVG_TOOLS_DISABLED) },
+    apiBaseUrl: env.BVG_API_BASE_URL
+  });
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => {
+      const [field, ...path] = issue.path;
+      const variable = ENV_VARIABLES[field as keyof typeof ENV_VARIABLES] ?? String(field);
+      return `${variable}${path.length > 0 ? ` (${path.join('.')})` : ''}: ${issue.message}`;
+    });
+    throw new Error(`Invalid environment: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Build the server configuration from the config file (BVG_CONFIG_FILE,
+ * default ~/.mcp-bvg/config.json) and environment variables, which take
+ * precedence. The `bvg` network is always available.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const file = readConfigFile(env.BVG_CONFIG_FILE ?? DEFAULT_CONFIG_FILE, env.BVG_CONFIG_FILE !== undefined);
+  const fromEnv = readEnv(env);
+  const defaultNetwork = fromEnv.defaultNetwork ?? file.defaultNetwork ?? 'bvg';
+
+  const networks: Record<string, z.infer<typeof NetworkFileSchema>> = {
+    bvg: { baseUrl: BVG_API_BASE_URL },
+    ...file.networks,
+    ...fromEnv.networks
+  };
+  if (!networks[defaultNetwork]) {
+    throw new Error(`Default network "${defaultNetwork}" is not configured`);
+  }
+  if (fromEnv.apiBaseUrl) {
+    networks[defaultNetwork] = { ...networks[defaultNetwork], baseUrl: fromEnv.apiBaseUrl };
+  }
+
+  return {
+    defaultNetwork,
+    language: fromEnv.language ?? file.language ?? 'en',
+    networks: Object.entries(networks).map(([name, network]) => ({
+      name,
+      baseUrl: network.baseUrl,
+      userAgent: fromEnv.userAgent ?? network.userAgent ?? file.userAgent ?? DEFAULT_USER_AGENT,
+      timeoutMs: fromEnv.timeoutMs ?? network.timeoutMs ?? file.timeoutMs,
+      maxRetries: fromEnv.maxRetries ?? network.maxRetries ?? file.maxRetries
+    })),
+    tools: {
+      enabled: fromEnv.tools?.enabled ?? file.tools?.enabled,
+      disabled: fromEnv.tools?.disabled ?? file.tools?.disabled
+    },
+    pollIntervalMs: fromEnv.pollIntervalMs ?? file.pollIntervalMs
+  };
+}
+
+/**
+ * Configuration of this server process
+ */
+export const config = loadConfig();
+
+/**
+ * Language parameter shared by all tools, defaulting to the configured language
+ */
+export const LanguageSchema = z.enum(['de', 'en']).default(config.language).describe('Language for results');
+
+/**
+ * Network parameter shared by all tools that query the upstream
+ */
+export const NetworkSchema = z.enum(config.networks.map(network => network.name) as [string, ...string[]])
+  .optional()
+  .describe(`Transit network to query (default: ${config.defaultNetwork})`);
@@ -0,0 +1,167 @@
+import { ZodError } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Server-defined MCP error codes (JSON-RPC reserves -32000 to -32099 for these)
+ */
+export enum BvgErrorCode {
+  UpstreamUnavailable = -32010,
+  NotFound = -32011,
+  RateLimited = -32012,
+  InvalidResponse = -32013,
+}
+
+/**
+ * Base class for errors raised while talking to the BVG API
+ */
+export abstract class BvgApiError extends Error {
+  /** HTTP status returned by the upstream, if any */
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+  }
+
+  /**
+   * MCP error code reported to the client
+   */
+  abstract get code(): number;
+
+  /**
+   * Hint telling the caller how to recover
+   */
+  abstract get hint(): string;
+
+  /**
+   * Copy of this error with the message prefixed by the operation that failed.
+   * Coalesced requests share one error instance, so it must not be modified.
+   */
+  withContext(context: string): this {
+    const error: this = Object.assign(Object.create(Object.getPrototypeOf(this)), this);
+    error.message = `${context}: ${this.message}`;
+    error.stack = this.stack;
+    error.cause = this;
+    return error;
+  }
+}
+
+/**
+ * The upstream could not be reached, timed out or answered with a server error
+ */
+export class UpstreamUnavailableError extends BvgApiError {
+  get code(): number {
+    return BvgErrorCode.UpstreamUnavailable;
+  }
+
+  get hint(): string {
+    return 'The BVG API is temporarily unavailable. Try again in a few minutes.';
+  }
+}
+
+/**
+ * The requested stop, trip or resource does not exist
+ */
+export class NotFoundError extends BvgApiError {
+  get code(): number {
+    return BvgErrorCode.NotFound;
+  }
+
+  get hint(): string {
+    return 'Check the ID. Use bvg_locations_search to look up stop IDs by name.';
+  }
+}
+
+/**
+ * The upstream rejected the request because of rate limiting
+ */
+export class RateLimitedError extends BvgApiError {
+  /** Milliseconds the upstream asked us to wait, if known */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message, 429);
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get code(): number {
+    return BvgErrorCode.RateLimited;
+  }
+
+  get hint(): string {
+    return this.retryAfterMs !== undefined
+      ? `Too many requests. Retry after ${Math.ceil(this.retryAfterMs / 1000)} seconds.`
+      : 'Too many requests. Wait a moment before retrying.';
+  }
+}
+
+/**
+ * The upstream answered with data that does not match the expected schema
+ */
+export class InvalidResponseError extends BvgApiError {
+  get code(): number {
+    return BvgErrorCode.InvalidResponse;
+  }
+
+  get hint(): string {
+    return 'The BVG API returned data in an unexpected format. Set BVG_VALIDATION_MODE=lenient to accept it.';
+  }
+}
+
+/**
+ * The request parameters were rejected, either locally or by the upstream
+ */
+export class InvalidRequestError extends BvgApiError {
+  get code(): number {
+    return ErrorCode.InvalidParams;
+  }
+
+  get hint(): string {
+    return 'Check the tool parameters and try again.';
+  }
+}
+
+/**
+ * Convert any error thrown by a tool into an MCP error with an actionable message
+ */
+export function toMcpError(error: unknown): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+
+  if (error instanceof ZodError) {
+    const issues = error.issues.map(issue => ({ path: issue.path.join('.') || '(root)', message: issue.message }));
+    return new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`,
+      { issues }
+    );
+  }
+
+  if (error instanceof BvgApiError) {
+    return new McpError(error.code, `${error.message}. ${error.hint}`, {
+      type: error.name,
+      status: error.status,
+      ...(error instanceof RateLimitedError && error.retryAfterMs !== undefined
+        ? { retryAfterMs: error.retryAfterMs }
+        : {}),
+    });
+  }
+
+  return new McpError(
+    ErrorCode.InternalError,
+    `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
+  );
+}
+
+/**
+ * Add context to an error caught in a tool executor, keeping typed errors intact
+ */
+export function wrapError(context: string, error: unknown): Error {
+  if (error instanceof BvgApiError) {
+    return error.withContext(context);
+  }
+
+  return new Error(`${context}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+}
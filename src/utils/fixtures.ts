@@ -0,0 +1,113 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+/**
+ * Whether the API client records upstream responses or replays them
+ */
+export type FixtureMode = 'record' | 'replay';
+
+/**
+ * A recorded upstream request and its response
+ */
+export interface Fixture {
+  request: {
+    method: 'GET';
+    path: string;
+    query: Record<string, string>;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+}
+
+/**
+ * Response headers worth keeping, the client reads nothing else
+ */
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+/**
+ * Request/response fixtures stored as one JSON file per request.
+ * Requests are matched by path and query, independent of the host and the
+ * order of query parameters.
+ */
+export class FixtureStore {
+  readonly dir: string;
+  readonly mode: FixtureMode;
+
+  constructor(dir: string, mode: FixtureMode) {
+    this.dir = dir;
+    this.mode = mode;
+  }
+
+  /**
+   * File name for a request: a readable path slug plus a hash of path and query
+   */
+  fileFor(url: URL): string {
+    const query = Array.from(url.searchParams.entries()).sort(([a], [b]) => a.localeCompare(b));
+    const key = `${url.pathname}?${new URLSearchParams(query).toString()}`;
+    const hash = createHash('sha1').update(key).digest('hex').slice(0, 10);
+    const slug = decodeURIComponent(url.pathname).replace(/^\/+/, '').replace(/[^a-z0-9]+/gi, '_').slice(0, 60) || 'root';
+    return join(this.dir, `${slug}-${hash}.json`);
+  }
+
+  /**
+   * The fixture recorded for a request, if any
+   */
+  async read(url: URL): Promise<Fixture | undefined> {
+    try {
+      return JSON.parse(await readFile(this.fileFor(url), 'utf8')) as Fixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Answer a request from its fixture
+   */
+  async replay(url: URL): Promise<Response> {
+    const fixture = await this.read(url);
+    if (!fixture) {
+      throw new Error(`No fixture recorded for GET ${url.pathname}${url.search}`);
+    }
+    return new Response(JSON.stringify(fixture.response.body), {
+      status: fixture.response.status,
+      headers: fixture.response.headers
+    });
+  }
+
+  /**
+   * Store a response as the fixture for its request. Pass a clone if the
+   * caller still needs to read the body.
+   */
+  async record(url: URL, response: Response): Promise<void> {
+    const text = await response.text();
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+
+    const headers: Record<string, string> = {};
+    RECORDED_HEADERS.forEach(name => {
+      const value = response.headers.get(name);
+      if (value !== null) {
+        headers[name] = value;
+      }
+    });
+
+    const fixture: Fixture = {
+      request: { method: 'GET', path: url.pathname, query: Object.fromEntries(url.searchParams.entries()) },
+      response: { status: response.status, headers, body }
+    };
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.fileFor(url), JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+  }
+}
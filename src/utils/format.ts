@@ -0,0 +1,900 @@
+import { z } from 'zod';
+import {
+  Location,
+  Stop,
+  Departure,
+  Arrival,
+  Journey,
+  JourneyPlanResult,
+  Leg,
+  Trip,
+  Stopover,
+  RadarResult,
+  Remark,
+  Products,
+  JourneyRefreshResult,
+  LegChange,
+  ResolvedLocation,
+  DepartureMonitorResult,
+  Disruption,
+  DisruptionsResult,
+  LineInfoResult,
+  TripsSearchResult,
+  ReachableResult,
+  VehicleTrack,
+  Movement,
+  SavedPlace,
+  StopDetailsResult,
+  FacilityOutage,
+  JourneyAccessibility
+} from '../types/bvg.js';
+import { formatDuration } from './api.js';
+
+/**
+ * Output format parameter shared by all tools
+ */
+export const OutputFormatSchema = z.enum(['json', 'compact', 'markdown']).default('json')
+  .describe('Output format: "json" (full API response), "compact" (flattened JSON without redundant nested objects) or "markdown" (human-readable tables)');
+
+export type OutputFormat = z.infer<typeof OutputFormatSchema>;
+
+/**
+ * Compact and markdown renderers for one kind of result
+ */
+export interface ResultFormatter<T> {
+  compact: (data: T) => unknown;
+  markdown: (data: T) => string;
+}
+
+/**
+ * Render a tool result in the requested format
+ */
+export function renderResult<T>(data: T, format: OutputFormat, formatter: ResultFormatter<T>): string {
+  switch (format) {
+    case 'compact':
+      return JSON.stringify(formatter.compact(data));
+    case 'markdown':
+      return formatter.markdown(data);
+    default:
+      return JSON.stringify(data, null, 2);
+  }
+}
+
+/**
+ * Format an ISO timestamp as local Berlin time (HH:MM)
+ */
+export function formatTime(iso?: string | null): string {
+  if (!iso) {
+    return '-';
+  }
+
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) {
+    return iso;
+  }
+
+  return date.toLocaleTimeString('de-DE', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/Berlin'
+  });
+}
+
+/**
+ * Format a delay given in seconds, e.g. "+3" minutes
+ */
+export function formatDelay(seconds?: number | null): string {
+  if (seconds === undefined || seconds === null) {
+    return '';
+  }
+
+  const minutes = Math.round(seconds / 60);
+  return minutes > 0 ? `+${minutes}` : minutes < 0 ? `${minutes}` : '0';
+}
+
+/**
+ * Minutes between two ISO timestamps
+ */
+function minutesBetween(from?: string | null, to?: string | null): number | undefined {
+  if (!from || !to) {
+    return undefined;
+  }
+
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+}
+
+/**
+ * List the enabled products, e.g. ["subway", "bus"]
+ */
+function productList(products?: Products): string[] | undefined {
+  if (!products) {
+    return undefined;
+  }
+
+  return Object.entries(products).filter(([, enabled]) => enabled).map(([product]) => product);
+}
+
+/**
+ * Keep only warnings and status remarks, reduced to their text
+ */
+function remarkTexts(remarks?: Remark[]): string[] | undefined {
+  const texts = remarks
+    ?.filter(remark => remark.type !== 'hint')
+    .map(remark => remark.summary ?? remark.text);
+
+  return texts && texts.length > 0 ? texts : undefined;
+}
+
+function escapeCell(value: unknown): string {
+  return String(value ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function markdownTable(headers: string[], rows: unknown[][]): string {
+  const lines = [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`)
+  ];
+
+  return lines.join('\n');
+}
+
+function coordinatesOf(location: Location | Stop): { latitude?: number; longitude?: number } {
+  const nested = (location as Stop).location;
+  return {
+    latitude: nested?.latitude ?? location.latitude,
+    longitude: nested?.longitude ?? location.longitude
+  };
+}
+
+function compactLocation(location: Location): Record<string, unknown> {
+  return {
+    type: location.type,
+    id: location.id,
+    name: location.name ?? location.address,
+    ...coordinatesOf(location),
+    distance: location.distance,
+    products: productList(location.products)
+  };
+}
+
+/**
+ * Formatter for location search and nearby results
+ */
+export const locationsFormatter: ResultFormatter<Location[]> = {
+  compact: locations => locations.map(compactLocation),
+  markdown: locations => {
+    if (locations.length === 0) {
+      return 'No locations found.';
+    }
+
+    const withDistance = locations.some(location => location.distance !== undefined);
+    const headers = ['Name', 'Type', 'ID', 'Products', ...(withDistance ? ['Distance'] : [])];
+    const rows = locations.map(location => [
+      location.name ?? location.address,
+      location.type,
+      location.id ?? '',
+      productList(location.products)?.join(', ') ?? '',
+      ...(withDistance ? [location.distance !== undefined ? `${location.distance} m` : ''] : [])
+    ]);
+
+    return markdownTable(headers, rows);
+  }
+};
+
+function describePlace(place: SavedPlace): string {
+  return place.kind === 'stop'
+    ? `${place.label ?? ''} (${place.stopId})`.trim()
+    : place.label ?? `${place.latitude},${place.longitude}`;
+}
+
+function compactPlace(place: SavedPlace): Record<string, unknown> {
+  return {
+    name: place.name,
+    kind: place.kind,
+    stopId: place.stopId,
+    label: place.label,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    products: place.products,
+    accessibility: place.accessibility
+  };
+}
+
+/**
+ * Formatter for a saved place
+ */
+export const placeFormatter: ResultFormatter<SavedPlace> = {
+  compact: compactPlace,
+  markdown: place => `Saved **${place.name}**: ${describePlace(place)}`
+};
+
+/**
+ * Formatter for the list of saved places
+ */
+export const placesFormatter: ResultFormatter<SavedPlace[]> = {
+  compact: places => places.map(compactPlace),
+  markdown: places => {
+    if (places.length === 0) {
+      return 'No saved places.';
+    }
+
+    return markdownTable(
+      ['Name', 'Type', 'Place', 'Products', 'Accessibility'],
+      places.map(place => [
+        place.name,
+        place.kind,
+        describePlace(place),
+        place.products?.join(', ') ?? '',
+        place.accessibility ?? ''
+      ])
+    );
+  }
+};
+
+/**
+ * Formatter for stop details
+ */
+export const stopFormatter: ResultFormatter<StopDetailsResult> = {
+  compact: stop => ({
+    ...compactLocation(stop),
+    station: stop.station ? { id: stop.station.id, name: stop.station.name } : undefined,
+    lines: stop.lines?.map(line => line.name),
+    accessibility: stop.accessibility
+  }),
+  markdown: stop => {
+    const { latitude, longitude } = coordinatesOf(stop);
+    const lines = stop.lines;
+    const parts = [
+      `### ${stop.name}`,
+      `- ID: ${stop.id}`,
+      `- Type: ${stop.type}`,
+      `- Coordinates: ${latitude},${longitude}`,
+      `- Products: ${productList(stop.products)?.join(', ') || 'none'}`
+    ];
+
+    if (stop.station) {
+      parts.push(`- Station: ${stop.station.name} (${stop.station.id})`);
+    }
+    if (lines && lines.length > 0) {
+      parts.push(`- Lines: ${lines.map(line => line.name).join(', ')}`);
+    }
+    if (stop.accessibility && !stop.accessibility.available) {
+      parts.push(`- Accessibility: ${stop.accessibility.reason ?? 'not available'}`);
+    } else if (stop.accessibility) {
+      parts.push(
+        `- Outages: ${(stop.accessibility.outages ?? []).map(describeOutage).join('; ') || 'none reported'}`,
+        ...(stop.accessibility.remarks ?? []).map(text => `- Accessibility: ${text}`)
+      );
+    }
+
+    return parts.join('\n');
+  }
+};
+
+function describeOutage(outage: FacilityOutage): string {
+  const where = outage.stopName ? ` at ${outage.stopName}` : outage.leg !== undefined ? ` on leg ${outage.leg}` : '';
+  return `${outage.facility === 'elevator' ? 'Elevator' : 'Escalator'} out of service${where}: ${outage.text}`;
+}
+
+/**
+ * Note shown for results answered from the offline timetable
+ */
+const SCHEDULED_ONLY_NOTE = '> Scheduled times only: the BVG API is unavailable, so realtime delays, platform changes and cancellations are missing.';
+
+function compactDeparture(departure: Departure): Record<string, unknown> {
+  return {
+    tripId: departure.tripId,
+    when: departure.when,
+    plannedWhen: departure.plannedWhen,
+    delay: departure.delay,
+    cancelled: departure.cancelled,
+    line: departure.line?.name,
+    product: departure.line?.product,
+    direction: departure.direction,
+    provenance: departure.provenance,
+    platform: departure.platform ?? departure.plannedPlatform,
+    stop: departure.stop ? { id: departure.stop.id, name: departure.stop.name } : undefined,
+    remarks: remarkTexts(departure.remarks),
+    scheduledOnly: departure.scheduledOnly
+  };
+}
+
+/**
+ * Distinct warnings of a departure board, prefixed with the line name
+ */
+function boardWarnings(departures: Departure[]): string {
+  const warnings = departures.flatMap(departure =>
+    (remarkTexts(departure.remarks) ?? []).map(text => `> ⚠ ${departure.line?.name ?? ''}: ${text}`)
+  );
+  if (departures.some(departure => departure.scheduledOnly)) {
+    warnings.unshift(SCHEDULED_ONLY_NOTE);
+  }
+
+  return warnings.length > 0 ? `\n\n${Array.from(new Set(warnings)).join('\n')}` : '';
+}
+
+function departureRow(departure: Departure, towards: string | undefined): unknown[] {
+  const time = departure.cancelled
+    ? `~~${formatTime(departure.plannedWhen)}~~ cancelled`
+    : formatTime(departure.when ?? departure.plannedWhen);
+
+  return [
+    time,
+    departure.line?.name ?? '',
+    towards ?? '',
+    formatDelay(departure.delay),
+    departure.platform ?? departure.plannedPlatform ?? ''
+  ];
+}
+
+/**
+ * Formatter for departure boards
+ */
+export const departuresFormatter: ResultFormatter<Departure[]> = {
+  compact: departures => departures.map(compactDeparture),
+  markdown: departures => {
+    if (departures.length === 0) {
+      return 'No departures found.';
+    }
+
+    return markdownTable(
+      ['Time', 'Line', 'Direction', 'Delay (min)', 'Platform'],
+      departures.map(departure => departureRow(departure, departure.direction))
+    ) + boardWarnings(departures);
+  }
+};
+
+/**
+ * Formatter for arrival boards
+ */
+export const arrivalsFormatter: ResultFormatter<Arrival[]> = {
+  compact: arrivals => arrivals.map(compactDeparture),
+  markdown: arrivals => {
+    if (arrivals.length === 0) {
+      return 'No arrivals found.';
+    }
+
+    return markdownTable(
+      ['Time', 'Line', 'From', 'Delay (min)', 'Platform'],
+      arrivals.map(arrival => departureRow(arrival, arrival.provenance))
+    ) + boardWarnings(arrivals);
+  }
+};
+
+/**
+ * Formatter for merged multi-stop departure boards
+ */
+export const departureMonitorFormatter: ResultFormatter<DepartureMonitorResult> = {
+  compact: result => ({
+    stops: result.stops,
+    departures: result.departures.map(departure => ({
+      ...compactDeparture(departure),
+      walkingDistance: departure.walkingDistance
+    }))
+  }),
+  markdown: result => {
+    const failed = result.stops.filter(stop => stop.error);
+    const notes = failed.length > 0
+      ? `\n\n${failed.map(stop => `> Could not load ${stop.name ?? stop.id}: ${stop.error}`).join('\n')}`
+      : '';
+
+    if (result.departures.length === 0) {
+      return `No departures found.${notes}`;
+    }
+
+    const table = markdownTable(
+      ['Time', 'Line', 'Direction', 'Stop', 'Walk', 'Delay (min)', 'Platform'],
+      result.departures.map(departure => {
+        const [time, line, direction, delay, platform] = departureRow(departure, departure.direction);
+        const walk = departure.walkingDistance !== undefined ? `${departure.walkingDistance} m` : '';
+        return [time, line, direction, departure.stop?.name ?? '', walk, delay, platform];
+      })
+    );
+
+    return table + boardWarnings(result.departures) + notes;
+  }
+};
+
+function formatValidity(disruption: Disruption): string {
+  if (!disruption.validFrom && !disruption.validUntil) {
+    return '';
+  }
+
+  const format = (iso: string) => new Date(iso).toLocaleString('de-DE', {
+    dateStyle: 'short',
+    timeStyle: 'short',
+    timeZone: 'Europe/Berlin'
+  });
+
+  return ` (${disruption.validFrom ? `from ${format(disruption.validFrom)}` : ''}` +
+    `${disruption.validFrom && disruption.validUntil ? ' ' : ''}` +
+    `${disruption.validUntil ? `until ${format(disruption.validUntil)}` : ''})`;
+}
+
+function markdownDisruption(disruption: Disruption): string {
+  const marker = disruption.severity === 'high' ? '⚠' : disruption.severity === 'medium' ? 'ℹ' : '·';
+  const title = disruption.summary && disruption.summary !== disruption.text
+    ? `**${disruption.summary}**: ${disruption.text}`
+    : disruption.text;
+  const stops = disruption.stops.length > 0
+    ? `\n  Stops: ${disruption.stops.map(stop => stop.name).join(', ')}`
+    : '';
+
+  return `- ${marker} ${title}${formatValidity(disruption)}${stops}`;
+}
+
+/**
+ * Formatter for disruption lookups, grouped by line
+ */
+export const disruptionsFormatter: ResultFormatter<DisruptionsResult> = {
+  compact: result => ({
+    disruptions: result.disruptions.map(disruption => ({
+      severity: disruption.severity,
+      text: disruption.summary ?? disruption.text,
+      lines: disruption.lines,
+      stops: disruption.stops.map(stop => stop.name),
+      validUntil: disruption.validUntil
+    })),
+    checked: result.sources.departures + result.sources.trips
+  }),
+  markdown: result => {
+    if (result.disruptions.length === 0) {
+      return `No disruptions found (checked ${result.sources.departures} departures and ${result.sources.trips} trips).`;
+    }
+
+    const groups = new Map<string, Disruption[]>();
+    result.disruptions.forEach(disruption => {
+      const lines = disruption.lines.length > 0 ? disruption.lines : ['Other'];
+      lines.forEach(line => {
+        groups.set(line, [...(groups.get(line) ?? []), disruption]);
+      });
+    });
+
+    return Array.from(groups.entries())
+      .map(([line, disruptions]) => `### ${line}\n${disruptions.map(markdownDisruption).join('\n')}`)
+      .join('\n\n');
+  }
+};
+
+/**
+ * Formatter for line information
+ */
+export const lineInfoFormatter: ResultFormatter<LineInfoResult> = {
+  compact: result => ({
+    line: result.line,
+    directions: result.directions.map(direction => ({
+      direction: direction.direction,
+      tripId: direction.tripId,
+      stops: direction.stops.map(stop => stop.name)
+    }))
+  }),
+  markdown: result => {
+    const { line } = result;
+    const header = `### ${line.name} (${line.productName ?? line.product}${line.operator ? `, ${line.operator}` : ''})`;
+    const directions = result.directions.map(direction =>
+      `**${direction.origin.name} → ${direction.destination.name}** (${direction.stops.length} stops)\n` +
+      direction.stops.map((stop, index) => `${index + 1}. ${stop.name}`).join('\n')
+    );
+
+    return [header, ...directions].join('\n\n');
+  }
+};
+
+function compactLeg(leg: Leg): Record<string, unknown> {
+  return {
+    walking: leg.walking || undefined,
+    line: leg.line?.name,
+    product: leg.line?.product,
+    direction: leg.direction,
+    tripId: leg.tripId,
+    origin: { id: leg.origin?.id, name: leg.origin?.name },
+    destination: { id: leg.destination?.id, name: leg.destination?.name },
+    departure: leg.departure ?? leg.plannedDeparture,
+    departureDelay: leg.departureDelay,
+    departurePlatform: leg.departurePlatform ?? leg.plannedDeparturePlatform,
+    arrival: leg.arrival ?? leg.plannedArrival,
+    arrivalDelay: leg.arrivalDelay,
+    arrivalPlatform: leg.arrivalPlatform ?? leg.plannedArrivalPlatform,
+    distance: leg.distance,
+    stopovers: leg.stopovers?.map(stopover => stopover.stop?.name),
+    remarks: remarkTexts(leg.remarks)
+  };
+}
+
+/**
+ * Summary of a journey: overall times, duration and number of transfers
+ */
+export function summarizeJourney(journey: Journey): {
+  departure?: string;
+  arrival?: string;
+  duration?: number;
+  transfers: number;
+} {
+  const first = journey.legs[0];
+  const last = journey.legs[journey.legs.length - 1];
+  const departure = first?.departure ?? first?.plannedDeparture;
+  const arrival = last?.arrival ?? last?.plannedArrival;
+  const rides = journey.legs.filter(leg => !leg.walking).length;
+
+  return {
+    departure,
+    arrival,
+    duration: minutesBetween(departure, arrival),
+    transfers: Math.max(0, rides - 1)
+  };
+}
+
+/**
+ * Waiting time in minutes at each transfer between two rides.
+ * Walking between platforms counts towards the transfer.
+ */
+export function transferWaits(journey: Journey): number[] {
+  const rides = journey.legs.filter(leg => !leg.walking);
+
+  return rides.slice(1).flatMap((ride, index) => {
+    const previous = rides[index];
+    const wait = minutesBetween(previous.arrival ?? previous.plannedArrival, ride.departure ?? ride.plannedDeparture);
+    return wait === undefined ? [] : [wait];
+  });
+}
+
+function markdownLeg(leg: Leg, index: number): string {
+  const departure = leg.departure ?? leg.plannedDeparture;
+  const arrival = leg.arrival ?? leg.plannedArrival;
+  const duration = minutesBetween(departure, arrival);
+  const span = `${formatTime(departure)} ${leg.origin?.name ?? '?'} → ${formatTime(arrival)} ${leg.destination?.name ?? '?'}`;
+
+  if (leg.walking) {
+    const distance = leg.distance !== undefined ? `, ${leg.distance} m` : '';
+    return `${index + 1}. Walk: ${span}${duration !== undefined ? ` (${formatDuration(duration)}${distance})` : ''}`;
+  }
+
+  const delay = formatDelay(leg.departureDelay);
+  const platform = leg.departurePlatform ?? leg.plannedDeparturePlatform;
+  const details = [
+    delay && delay !== '0' ? `${delay} min delay` : undefined,
+    platform ? `platform ${platform}` : undefined
+  ].filter(Boolean).join(', ');
+
+  return `${index + 1}. ${leg.line?.name ?? 'Ride'}${leg.direction ? ` towards ${leg.direction}` : ''}: ${span}${details ? ` (${details})` : ''}`;
+}
+
+function markdownJourney(journey: Journey, index: number, accessibility?: JourneyAccessibility): string {
+  const summary = summarizeJourney(journey);
+  const stats = [
+    summary.duration !== undefined ? formatDuration(summary.duration) : undefined,
+    `${summary.transfers} transfer${summary.transfers === 1 ? '' : 's'}`
+  ].filter(Boolean).join(', ');
+  const affected = accessibility?.affected ? ' — affected by an outage' : '';
+  const lines = [`### Option ${index + 1}: ${formatTime(summary.departure)} → ${formatTime(summary.arrival)} (${stats})${affected}`];
+
+  journey.legs.forEach((leg, legIndex) => {
+    if (legIndex > 0) {
+      const previous = journey.legs[legIndex - 1];
+      const wait = minutesBetween(previous.arrival ?? previous.plannedArrival, leg.departure ?? leg.plannedDeparture);
+      if (wait !== undefined && wait > 0 && !leg.walking && !previous.walking) {
+        lines.push(`   _${formatDuration(wait)} transfer_`);
+      }
+    }
+    lines.push(markdownLeg(leg, legIndex));
+  });
+
+  const warnings = journey.legs.flatMap(leg => remarkTexts(leg.remarks) ?? []);
+  if (warnings.length > 0) {
+    lines.push('', ...Array.from(new Set(warnings)).map(text => `> ⚠ ${text}`));
+  }
+
+  if (accessibility) {
+    const stopRemarks = accessibility.stops.flatMap(stop => stop.remarks.map(text => `- ${stop.name}: ${text}`));
+    lines.push(
+      '',
+      ...accessibility.outages.map(outage => `> ♿ ${describeOutage(outage)}`),
+      ...(stopRemarks.length > 0 ? ['**Accessibility:**', ...stopRemarks] : [])
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function describeResolved(label: string, location: ResolvedLocation): string {
+  const target = location.kind === 'coordinates'
+    ? `coordinates ${location.latitude},${location.longitude}`
+    : location.kind === 'stop-id'
+      ? `stop ${location.id}`
+      : `${location.name} (${location.kind}${location.id ? ` ${location.id}` : ''})`;
+  const alternatives = location.alternatives?.length
+    ? `; other matches: ${location.alternatives.map(alt => `${alt.name}${alt.id ? ` (${alt.id})` : ''}`).join(', ')}`
+    : '';
+
+  return `**${label}:** ${target}${location.kind !== 'stop-id' && location.kind !== 'coordinates' ? ` for "${location.input}"` : ''}${alternatives}`;
+}
+
+function compactJourney(journey: Journey, accessibility?: JourneyAccessibility): Record<string, unknown> {
+  return {
+    ...summarizeJourney(journey),
+    transferWaits: transferWaits(journey),
+    refreshToken: journey.refreshToken,
+    price: journey.price,
+    legs: journey.legs.map(compactLeg),
+    accessibility
+  };
+}
+
+/**
+ * Formatter for journey plans
+ */
+export const journeysFormatter: ResultFormatter<JourneyPlanResult> = {
+  compact: result => ({
+    resolved: result.resolved,
+    journeys: result.journeys.map((journey, index) => compactJourney(journey, result.accessibility?.[index])),
+    replanned: result.replanned,
+    earlierRef: result.earlierRef,
+    laterRef: result.laterRef
+  }),
+  markdown: result => {
+    const resolved = [
+      describeResolved('From', result.resolved.from),
+      describeResolved('To', result.resolved.to),
+      result.resolved.via ? describeResolved('Via', result.resolved.via) : undefined
+    ].filter(Boolean).join('\n');
+
+    if (result.journeys.length === 0) {
+      return `${resolved}\n\nNo journeys found.`;
+    }
+
+    const cursors = [
+      result.earlierRef ? `- Earlier connections: \`earlierThan: "${result.earlierRef}"\`` : undefined,
+      result.laterRef ? `- Later connections: \`laterThan: "${result.laterRef}"\`` : undefined
+    ].filter(Boolean);
+
+    const replanned = result.replanned ? '\n\n_Later connections were searched to avoid elevator and escalator outages._' : '';
+
+    return `${resolved}${replanned}\n\n` +
+      result.journeys.map((journey, index) => markdownJourney(journey, index, result.accessibility?.[index])).join('\n\n') +
+      (cursors.length > 0 ? `\n\n${cursors.join('\n')}` : '');
+  }
+};
+
+function describeChange(change: LegChange): string {
+  if (change.field === 'legs') {
+    return `Route changed: ${change.previous} legs → ${change.current} legs`;
+  }
+
+  const label = `Leg ${change.leg}${change.line ? ` (${change.line})` : ''}`;
+  switch (change.field) {
+    case 'departureDelay':
+    case 'arrivalDelay': {
+      const kind = change.field === 'departureDelay' ? 'departure' : 'arrival';
+      const before = formatDelay(change.previous as number | null) || 'unknown';
+      const after = formatDelay(change.current as number | null) || 'unknown';
+      return `${label}: ${kind} delay ${before} → ${after} min`;
+    }
+    case 'departurePlatform':
+    case 'arrivalPlatform': {
+      const kind = change.field === 'departurePlatform' ? 'departure' : 'arrival';
+      return `${label}: ${kind} platform ${change.previous ?? '?'} → ${change.current ?? '?'}`;
+    }
+    case 'cancelled':
+      return `${label}: ${change.current ? 'cancelled' : 'no longer cancelled'}`;
+    default:
+      return `${label}: ${change.current ? 'connection reachable again' : 'connection no longer reachable'}`;
+  }
+}
+
+/**
+ * Formatter for journey refreshes
+ */
+export const journeyRefreshFormatter: ResultFormatter<JourneyRefreshResult> = {
+  compact: result => ({
+    ...compactJourney(result.journey),
+    compared: result.compared,
+    changes: result.changes
+  }),
+  markdown: result => {
+    const journey = markdownJourney(result.journey, 0).replace(/^### Option 1:/, '### Updated journey:');
+
+    if (!result.compared) {
+      return `${journey}\n\nNo earlier version of this journey is known, so changes cannot be listed.`;
+    }
+    if (result.changes.length === 0) {
+      return `${journey}\n\nNo changes since the journey was planned.`;
+    }
+
+    return `${journey}\n\n**Changes:**\n${result.changes.map(change => `- ${describeChange(change)}`).join('\n')}`;
+  }
+};
+
+function compactStopover(stopover: Stopover): Record<string, unknown> {
+  return {
+    stop: { id: stopover.stop?.id, name: stopover.stop?.name },
+    arrival: stopover.arrival ?? stopover.plannedArrival,
+    arrivalDelay: stopover.arrivalDelay,
+    departure: stopover.departure ?? stopover.plannedDeparture,
+    departureDelay: stopover.departureDelay,
+    platform: stopover.platform ?? stopover.plannedPlatform,
+    remarks: remarkTexts(stopover.remarks)
+  };
+}
+
+/**
+ * Formatter for trip details
+ */
+export const tripFormatter: ResultFormatter<Trip> = {
+  compact: trip => ({
+    id: trip.id,
+    line: trip.line?.name,
+    product: trip.line?.product,
+    operator: trip.line?.operator?.name,
+    direction: trip.direction,
+    origin: { id: trip.origin?.id, name: trip.origin?.name },
+    destination: { id: trip.destination?.id, name: trip.destination?.name },
+    departure: trip.departure ?? trip.plannedDeparture,
+    departureDelay: trip.departureDelay,
+    arrival: trip.arrival ?? trip.plannedArrival,
+    arrivalDelay: trip.arrivalDelay,
+    stopovers: trip.stopovers?.map(compactStopover),
+    scheduledOnly: trip.scheduledOnly
+  }),
+  markdown: trip => {
+    const header = `### ${trip.line?.name ?? 'Trip'}${trip.direction ? ` → ${trip.direction}` : ''}\n` +
+      `${formatTime(trip.departure ?? trip.plannedDeparture)} ${trip.origin?.name ?? '?'} → ` +
+      `${formatTime(trip.arrival ?? trip.plannedArrival)} ${trip.destination?.name ?? '?'}` +
+      (trip.scheduledOnly ? `\n\n${SCHEDULED_ONLY_NOTE}` : '');
+
+    if (!trip.stopovers || trip.stopovers.length === 0) {
+      return header;
+    }
+
+    const rows = trip.stopovers.map(stopover => [
+      stopover.stop?.name ?? '',
+      formatTime(stopover.arrival ?? stopover.plannedArrival),
+      formatTime(stopover.departure ?? stopover.plannedDeparture),
+      formatDelay(stopover.departureDelay ?? stopover.arrivalDelay),
+      stopover.platform ?? stopover.plannedPlatform ?? ''
+    ]);
+
+    return `${header}\n\n${markdownTable(['Stop', 'Arrival', 'Departure', 'Delay (min)', 'Platform'], rows)}`;
+  }
+};
+
+/**
+ * Formatter for trip search results
+ */
+export const tripsSearchFormatter: ResultFormatter<TripsSearchResult> = {
+  compact: result => result.trips.map(trip => ({
+    tripId: trip.tripId,
+    line: trip.line,
+    direction: trip.direction,
+    departure: trip.departure,
+    arrival: trip.arrival,
+    delay: trip.departureDelay ?? trip.arrivalDelay
+  })),
+  markdown: result => {
+    if (result.trips.length === 0) {
+      return 'No trips found.';
+    }
+
+    return markdownTable(
+      ['Line', 'Direction', 'Departure', 'Arrival', 'Delay (min)', 'Trip ID'],
+      result.trips.map(trip => [
+        trip.line ?? '',
+        trip.direction ?? trip.destination?.name ?? '',
+        `${formatTime(trip.departure)} ${trip.origin?.name ?? ''}`.trim(),
+        `${formatTime(trip.arrival)} ${trip.destination?.name ?? ''}`.trim(),
+        formatDelay(trip.departureDelay ?? trip.arrivalDelay),
+        trip.tripId
+      ])
+    );
+  }
+};
+
+/**
+ * Formatter for reachability results
+ */
+export const reachableFormatter: ResultFormatter<ReachableResult> = {
+  compact: result => ({
+    origin: result.origin.address,
+    buckets: result.buckets.map(bucket => ({
+      minutes: `${bucket.minDuration}-${bucket.maxDuration}`,
+      stops: bucket.stops.map(stop => stop.name)
+    }))
+  }),
+  markdown: result => {
+    const header = `### Reachable from ${result.origin.address} within ${result.maxDuration} min`;
+    if (result.buckets.length === 0) {
+      return `${header}
+
+No stops reachable.`;
+    }
+
+    const buckets = result.buckets.map(bucket =>
+      `**${bucket.minDuration}–${bucket.maxDuration} min** (${bucket.stops.length} stops)\n` +
+      bucket.stops.map(stop => `- ${stop.name} (${stop.duration} min)`).join('\n')
+    );
+
+    return [header, ...buckets].join('\n\n');
+  }
+};
+
+/**
+ * The first stopover the vehicle has not reached yet at the given time
+ */
+export function upcomingStopover(movement: Movement, at = Date.now()): Stopover | undefined {
+  const stopovers = movement.nextStopovers ?? [];
+  return stopovers.find(stopover => {
+    const time = stopover.arrival ?? stopover.plannedArrival ?? stopover.departure ?? stopover.plannedDeparture;
+    return time !== undefined && time !== null && new Date(time).getTime() >= at;
+  }) ?? stopovers[0];
+}
+
+function markdownTrack(track: VehicleTrack): string {
+  const header = `### Tracking ${track.line ?? track.tripId}${track.direction ? ` → ${track.direction}` : ''}`;
+  const next = track.nextStop
+    ? `Next stop: ${track.nextStop.name}${track.nextStop.arrival ? ` at ${formatTime(track.nextStop.arrival)}` : ''}` +
+      (track.nextStop.delay !== undefined ? ` (${formatDelay(track.nextStop.delay)} min)` : '')
+    : 'Next stop: unknown';
+  const summary = [
+    next,
+    `Delay trend: ${track.delayTrend}`,
+    `Moved ${track.distanceTravelled} m` +
+      (track.stopsPassed.length > 0 ? `, passed ${track.stopsPassed.map(stop => stop.name).join(', ')}` : '')
+  ].join('\n');
+
+  const rows = track.samples.map(sample => [
+    formatTime(sample.at),
+    sample.visible ? `${sample.latitude},${sample.longitude}` : 'out of area',
+    sample.nextStop?.name ?? '',
+    formatDelay(sample.delay)
+  ]);
+
+  return `${header}\n${summary}\n\n${markdownTable(['Time', 'Position', 'Next Stop', 'Delay (min)'], rows)}`;
+}
+
+/**
+ * Formatter for radar results
+ */
+export const radarFormatter: ResultFormatter<RadarResult> = {
+  compact: radar => {
+    const vehicles = radar.movements.map(movement => ({
+      tripId: movement.tripId,
+      line: movement.line?.name,
+      product: movement.line?.product,
+      direction: movement.direction,
+      latitude: movement.location?.latitude,
+      longitude: movement.location?.longitude,
+      nextStop: upcomingStopover(movement)?.stop?.name
+    }));
+
+    return {
+      vehicles,
+      track: radar.track && {
+        tripId: radar.track.tripId,
+        line: radar.track.line,
+        delayTrend: radar.track.delayTrend,
+        distanceTravelled: radar.track.distanceTravelled,
+        stopsPassed: radar.track.stopsPassed.map(stop => stop.name),
+        nextStop: radar.track.nextStop
+      }
+    };
+  },
+  markdown: radar => {
+    const track = radar.track ? markdownTrack(radar.track) : undefined;
+    if (radar.movements.length === 0) {
+      return track ?? 'No vehicles found in this area.';
+    }
+
+    const table = markdownTable(
+      ['Line', 'Direction', 'Position', 'Next Stop', 'Trip ID'],
+      radar.movements.map(movement => [
+        movement.line?.name ?? '',
+        movement.direction ?? '',
+        `${movement.location?.latitude},${movement.location?.longitude}`,
+        upcomingStopover(movement)?.stop?.name ?? '',
+        movement.tripId
+      ])
+    );
+
+    return track ? `${track}\n\n${table}` : table;
+  }
+};
@@ -0,0 +1,130 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { SavedPlace } from '../types/bvg.js';
+import { InvalidRequestError } from './errors.js';
+
+/**
+ * Default location of the profile file
+ */
+export const DEFAULT_PROFILE_FILE = join(homedir(), '.mcp-bvg', 'profile.json');
+
+interface ProfileData {
+  places: SavedPlace[];
+}
+
+/**
+ * JSON-backed store of saved places. Names are matched case-insensitively.
+ */
+export class ProfileStore {
+  private places = new Map<string, SavedPlace>();
+  private filePath: string;
+  private loaded = false;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Look up a saved place by name
+   */
+  get(name: string): SavedPlace | undefined {
+    this.load();
+    return this.places.get(name.trim().toLowerCase());
+  }
+
+  /**
+   * All saved places, sorted by name
+   */
+  list(): SavedPlace[] {
+    this.load();
+    return Array.from(this.places.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Save a place, replacing an existing place of the same name
+   */
+  async save(place: SavedPlace): Promise<void> {
+    this.load();
+    this.places.set(place.name.trim().toLowerCase(), place);
+    await this.persist();
+  }
+
+  /**
+   * Delete a place, returning whether it existed
+   */
+  async delete(name: string): Promise<boolean> {
+    this.load();
+    const deleted = this.places.delete(name.trim().toLowerCase());
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Load the profile on first use, ignoring a missing or corrupt file
+   */
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf8')) as ProfileData;
+      (data.places ?? []).forEach(place => {
+        if (place && typeof place.name === 'string') {
+          this.places.set(place.name.trim().toLowerCase(), place);
+        }
+      });
+    } catch (error) {
+      console.error(`Ignoring unreadable profile file ${this.filePath}:`, error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const data: ProfileData = { places: this.list() };
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, JSON.stringify(data, null, 2));
+  }
+}
+
+/**
+ * Profile store used by the tools
+ */
+export const profileStore = new ProfileStore(process.env.BVG_PROFILE_FILE ?? DEFAULT_PROFILE_FILE);
+
+/**
+ * Replace a saved-place alias by its stop ID. Other input is returned unchanged.
+ */
+export function stopIdFor(input: string): string {
+  const place = profileStore.get(input);
+  if (!place) {
+    return input;
+  }
+  if (place.kind !== 'stop' || !place.stopId) {
+    throw new InvalidRequestError(`Saved place "${place.name}" is not a stop`);
+  }
+  return place.stopId;
+}
+
+/**
+ * Replace a saved-place alias by its "latitude,longitude" coordinates.
+ * Other input is returned unchanged.
+ */
+export function coordinatesFor(input: string): string {
+  const place = profileStore.get(input);
+  if (!place) {
+    return input;
+  }
+  if (place.latitude === undefined || place.longitude === undefined) {
+    throw new InvalidRequestError(`Saved place "${place.name}" has no coordinates`);
+  }
+  return `${place.latitude},${place.longitude}`;
+}
@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { CallToolResult, Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { BvgClient } from './api.js';
+import { OutputFormat, renderResult, ResultFormatter } from './format.js';
+import { createMcpTool, validateOutput } from './schema.js';
+
+/**
+ * Parameters every tool accepts
+ */
+export interface ToolParams {
+  format: OutputFormat;
+  network?: string;
+}
+
+/**
+ * Everything the server needs to list and run a tool
+ */
+export interface ToolDescriptor<P extends ToolParams, R> {
+  name: string;
+  description: string;
+  schema: z.ZodType<P, z.ZodTypeDef, unknown>;
+  /** Schema of the structured content, must describe an object */
+  outputSchema?: z.ZodType<Record<string, unknown>, z.ZodTypeDef, unknown>;
+  annotations?: ToolAnnotations;
+  execute: (params: P, client: BvgClient) => Promise<R>;
+  formatter: ResultFormatter<R>;
+  /** Structured content for a result */
+  structured: (result: R) => Record<string, unknown>;
+}
+
+/**
+ * A tool whose parameter and result types are captured by its closures,
+ * so that tools of different types can be listed and run together
+ */
+export interface RegisteredTool {
+  name: string;
+  /** The MCP tool listing entry */
+  definition: Tool;
+  run: (args: unknown, clientFor: (network?: string) => BvgClient) => Promise<CallToolResult>;
+}
+
+/**
+ * Hints for tools that only read from the upstream API
+ */
+export const READ_ONLY_UPSTREAM: ToolAnnotations = {
+  readOnlyHint: true,
+  openWorldHint: true
+};
+
+/**
+ * Identity function that infers the parameter and result types of a descriptor
+ */
+export function defineTool<P extends ToolParams, R>(descriptor: ToolDescriptor<P, R>): ToolDescriptor<P, R> {
+  return descriptor;
+}
+
+/**
+ * Erase the types of a descriptor for the list of tools
+ */
+export function registeredTool<P extends ToolParams, R>(descriptor: ToolDescriptor<P, R>): RegisteredTool {
+  return {
+    name: descriptor.name,
+    definition: toMcpTool(descriptor),
+    run: (args, clientFor) => runTool(descriptor, args, clientFor)
+  };
+}
+
+/**
+ * The MCP tool listing entry of a descriptor
+ */
+export function toMcpTool<P extends ToolParams, R>(descriptor: ToolDescriptor<P, R>): Tool {
+  return {
+    ...createMcpTool(descriptor.name, descriptor.description, descriptor.schema, descriptor.outputSchema),
+    ...(descriptor.annotations ? { annotations: descriptor.annotations } : {})
+  };
+}
+
+/**
+ * Parse the arguments, run the tool and render its result. The structured
+ * content is checked against the output schema, so data that passed upstream
+ * validation leniently or came from the fallback timetable is still checked.
+ */
+export async function runTool<P extends ToolParams, R>(
+  descriptor: ToolDescriptor<P, R>,
+  args: unknown,
+  clientFor: (network?: string) => BvgClient
+): Promise<CallToolResult> {
+  const params = descriptor.schema.parse(args ?? {});
+  const result = await descriptor.execute(params, clientFor(params.network));
+  const structured = descriptor.structured(result);
+
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: renderResult(result, params.format, descriptor.formatter),
+      },
+    ],
+    structuredContent: descriptor.outputSchema ? validateOutput(descriptor.outputSchema, structured) : structured,
+  };
+}
+
+/**
+ * Match a tool name against a pattern where "*" matches any characters
+ */
+function matchesPattern(name: string, pattern: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(name);
+}
+
+/**
+ * Filter tools by enabled and disabled name patterns. Without enabled
+ * patterns all tools are enabled; disabled patterns always win.
+ */
+export function selectTools<T extends { name: string }>(
+  tools: T[],
+  filter: { enabled?: string[]; disabled?: string[] }
+): T[] {
+  return tools.filter(tool =>
+    (!filter.enabled?.length || filter.enabled.some(pattern => matchesPattern(tool.name, pattern))) &&
+    !filter.disabled?.some(pattern => matchesPattern(tool.name, pattern))
+  );
+}
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { Location, ResolvedLocation, SavedPlace } from '../types/bvg.js';
+import { LocationSchema } from '../types/schemas.js';
+import { bvgApi, BvgClient, parseCoordinates } from './api.js';
+import { config } from './config.js';
+import { NotFoundError } from './errors.js';
+import { profileStore } from './profile.js';
+import { validateResponse } from './validation.js';
+
+/**
+ * "52.52,13.40" with optional whitespace and signs
+ */
+export const COORDINATES_PATTERN = /^\s*-?\d+(\.\d+)?\s*,\s*-?\d+(\.\d+)?\s*$/;
+
+/**
+ * Numeric HAFAS IDs (900100003, or 8011160 on DB) and IFOPT IDs
+ * (de:11000:900100003). Shorter numbers such as postcodes are looked up.
+ */
+export const STOP_ID_PATTERN = /^(\d{6,}|[a-z]{2}:\d+(:\d+)*)$/i;
+
+/**
+ * Number of alternative candidates reported for free-text input
+ */
+const MAX_ALTERNATIVES = 3;
+
+export interface ResolveOptions {
+  /** Only accept stops, e.g. for `via` which the upstream requires to be a stop */
+  stopsOnly?: boolean;
+  language?: string;
+  /** Client for the lookups, defaults to the shared instance */
+  client?: BvgClient;
+}
+
+/**
+ * Work out what a free-text location refers to: a saved place, a stop ID,
+ * coordinates, or a name/address that is looked up via /locations
+ */
+export async function resolveLocation(input: string, options: ResolveOptions = {}): Promise<ResolvedLocation> {
+  let text = input.trim();
+  const client = options.client ?? bvgApi;
+
+  const place = profileStore.get(text);
+  if (place) {
+    if (place.kind === 'stop' || !options.stopsOnly) {
+      return resolveSavedPlace(input, place);
+    }
+    // Use the stop nearest to a saved address
+    text = `${place.latitude},${place.longitude}`;
+  }
+
+  if (STOP_ID_PATTERN.test(text)) {
+    return { input, kind: 'stop-id', id: text };
+  }
+
+  if (COORDINATES_PATTERN.test(text)) {
+    const { latitude, longitude } = parseCoordinates(text);
+
+    if (!options.stopsOnly) {
+      return { input, kind: 'coordinates', latitude, longitude };
+    }
+
+    const nearby = await client.get<unknown>('/locations/nearby', {
+      latitude,
+      longitude,
+      results: MAX_ALTERNATIVES + 1,
+      poi: false,
+      language: options.language ?? config.language
+    });
+    return pickCandidate(input, validateResponse<Location[]>(z.array(LocationSchema), nearby, 'nearby locations'));
+  }
+
+  const response = await client.get<unknown>('/locations', {
+    query: text,
+    results: MAX_ALTERNATIVES + 1,
+    stops: true,
+    addresses: !options.stopsOnly,
+    poi: !options.stopsOnly,
+    language: options.language ?? config.language
+  });
+
+  return pickCandidate(input, validateResponse<Location[]>(z.array(LocationSchema), response, 'locations'));
+}
+
+function resolveSavedPlace(input: string, place: SavedPlace): ResolvedLocation {
+  return {
+    input,
+    kind: place.kind,
+    id: place.stopId,
+    name: place.label,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    savedPlace: place.name
+  };
+}
+
+/**
+ * Pick the best match and keep the runners-up as alternatives
+ */
+function pickCandidate(input: string, candidates: Location[]): ResolvedLocation {
+  const [best, ...rest] = candidates;
+
+  if (!best) {
+    throw new NotFoundError(`No location found for "${input}"`);
+  }
+
+  const alternatives = rest.slice(0, MAX_ALTERNATIVES).map(candidate => ({
+    type: candidate.type,
+    id: candidate.id,
+    name: candidate.name ?? candidate.address
+  }));
+
+  const kind: ResolvedLocation['kind'] = best.type === 'stop' || best.type === 'station'
+    ? 'stop'
+    : best.poi ? 'poi' : 'address';
+
+  return {
+    input,
+    kind,
+    id: best.id ?? undefined,
+    name: best.name ?? best.address ?? undefined,
+    latitude: best.latitude ?? undefined,
+    longitude: best.longitude ?? undefined,
+    ...(alternatives.length > 0 ? { alternatives } : {})
+  };
+}
+
+/**
+ * Convert a resolved location into upstream query parameters,
+ * e.g. `from=900100003` or `from.latitude`/`from.longitude`/`from.address`
+ */
+export function locationQueryParams(prefix: string, location: ResolvedLocation): Record<string, string | number> {
+  switch (location.kind) {
+    case 'stop-id':
+    case 'stop':
+      return { [prefix]: location.id! };
+    case 'poi':
+      return {
+        [`${prefix}.id`]: location.id!,
+        [`${prefix}.name`]: location.name!,
+        [`${prefix}.latitude`]: location.latitude!,
+        [`${prefix}.longitude`]: location.longitude!
+      };
+    case 'address':
+      return {
+        [`${prefix}.address`]: location.name ?? `${location.latitude},${location.longitude}`,
+        [`${prefix}.latitude`]: location.latitude!,
+        [`${prefix}.longitude`]: location.longitude!
+      };
+    default:
+      return {
+        [`${prefix}.latitude`]: location.latitude!,
+        [`${prefix}.longitude`]: location.longitude!
+      };
+  }
+}
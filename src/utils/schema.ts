@@ -15,16 +15,36 @@ export function zodToMcpSchema(zodSchema: z.ZodSchema): any {
 }
 
 /**
- * Create an MCP tool with automatic schema conversion from Zod
+ * Create an MCP tool with automatic schema conversion from Zod.
+ * The optional output schema must describe an object.
  */
 export function createMcpTool(
   name: string,
   description: string,
-  zodSchema: z.ZodSchema
+  zodSchema: z.ZodSchema,
+  outputSchema?: z.ZodSchema
 ): Tool {
   return {
     name,
     description,
-    inputSchema: zodToMcpSchema(zodSchema)
+    inputSchema: zodToMcpSchema(zodSchema),
+    ...(outputSchema ? { outputSchema: zodToMcpSchema(outputSchema) } : {})
   };
 }
+
+/**
+ * Validate a tool result against its declared output schema.
+ * Failures are reported as internal errors, not as invalid parameters.
+ */
+export function validateOutput<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown): T {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Response does not match the declared output schema: ${issues}`);
+  }
+
+  return result.data;
+}
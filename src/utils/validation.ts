@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { InvalidResponseError } from './errors.js';
+
+/**
+ * How upstream responses are checked against the BVG schemas:
+ * - lenient: log schema drift to stderr and pass the data through
+ * - strict: fail the request on schema drift
+ * - off: skip validation, only normalize
+ */
+export type ValidationMode = 'lenient' | 'strict' | 'off';
+
+let validationMode: ValidationMode = parseValidationMode(process.env.BVG_VALIDATION_MODE);
+
+function parseValidationMode(value?: string): ValidationMode {
+  return value === 'strict' || value === 'off' ? value : 'lenient';
+}
+
+/**
+ * Current validation mode (BVG_VALIDATION_MODE, default: lenient)
+ */
+export function getValidationMode(): ValidationMode {
+  return validationMode;
+}
+
+/**
+ * Override the validation mode at runtime
+ */
+export function setValidationMode(mode: ValidationMode): void {
+  validationMode = mode;
+}
+
+/**
+ * Shape of a type as sent by the upstream: optional fields may also be null
+ */
+export type Upstream<T> = T extends Array<infer U>
+  ? Array<Upstream<U>>
+  : T extends object
+    ? { [K in keyof T]: undefined extends T[K] ? Upstream<Exclude<T[K], undefined>> | null | undefined : Upstream<T[K]> }
+    : T;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Normalize coordinates in place, recursively.
+ * The upstream puts them either on the object itself or in a nested
+ * `location` object; both forms are filled in so consumers can rely on either.
+ */
+export function normalizeCoordinates<T>(data: T): T {
+  if (Array.isArray(data)) {
+    data.forEach(item => normalizeCoordinates(item));
+    return data;
+  }
+
+  if (!isRecord(data)) {
+    return data;
+  }
+
+  const record: Record<string, unknown> = data;
+  const nested = record.location;
+
+  if (isRecord(nested) && typeof nested.latitude === 'number') {
+    record.latitude ??= nested.latitude;
+    record.longitude ??= nested.longitude;
+  } else if (
+    (record.type === 'stop' || record.type === 'station') &&
+    typeof record.latitude === 'number' &&
+    typeof record.longitude === 'number'
+  ) {
+    record.location = { type: 'location', latitude: record.latitude, longitude: record.longitude };
+  }
+
+  Object.values(record).forEach(value => {
+    if (value && typeof value === 'object') {
+      normalizeCoordinates(value);
+    }
+  });
+
+  return data;
+}
+
+/**
+ * Remove null fields, recursively. The upstream sends null for missing
+ * realtime data where the BVG types have optional fields.
+ */
+function withoutNulls<T>(data: Upstream<T>): T;
+function withoutNulls(data: unknown): unknown {
+  if (Array.isArray(data)) {
+    return data.map(withoutNulls);
+  }
+
+  if (!isRecord(data)) {
+    return data;
+  }
+
+  return Object.fromEntries(
+    Object.entries(data)
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => [key, withoutNulls(value)])
+  );
+}
+
+/**
+ * Normalize an upstream response and check it against its schema. The
+ * schema's output must match the upstream shape of T, so the parsed data is
+ * T once nulls are removed. Lenient and off modes pass unchecked data on;
+ * tool results are checked against the output schemas before they are sent.
+ */
+export function validateResponse<T>(
+  schema: z.ZodType<Upstream<T>, z.ZodTypeDef, unknown>,
+  data: unknown,
+  context: string
+): T {
+  const normalized = normalizeCoordinates(data);
+
+  if (validationMode === 'off') {
+    return withoutNulls(normalized as Upstream<T>);
+  }
+
+  const result = schema.safeParse(normalized);
+  if (result.success) {
+    return withoutNulls(result.data);
+  }
+
+  const issues = result.error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+  const more = result.error.issues.length > 5 ? ` (+${result.error.issues.length - 5} more)` : '';
+
+  if (validationMode === 'strict') {
+    throw new InvalidResponseError(`Unexpected ${context} response from BVG API: ${issues}${more}`);
+  }
+
+  console.error(`BVG API schema drift in ${context} response: ${issues}${more}`);
+  return withoutNulls(normalized as Upstream<T>);
+}
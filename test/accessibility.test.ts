@@ -0,0 +1,163 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Journey } from '../src/types/bvg.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { connectClient, RECORDED_AT, stop, timetableStub } from './helpers.js';
+
+const ELEVATOR_OUTAGE = { type: 'warning', text: 'Aufzug zu Gleis 1 außer Betrieb' };
+const RAMP_HINT = { type: 'hint', text: 'Stufenfreier Zugang über Rampe' };
+const S5 = { type: 'line', id: 's5', name: 'S5', public: true, mode: 'train', product: 'suburban' };
+
+const alexanderplatz = stop('900100003', 'S+U Alexanderplatz (Berlin)');
+const friedrichstr = stop('900100001', 'S+U Friedrichstr. (Berlin)');
+const hackescher = stop('900100002', 'S Hackescher Markt (Berlin)');
+const potsdamer = stop('900100020', 'S+U Potsdamer Platz (Berlin)');
+
+/**
+ * Ride from Alexanderplatz to Potsdamer Platz, changing at Friedrichstr.
+ */
+function journey(departure: string, friedrichstrRemarks: object[]) {
+  const leg = (origin: object, destination: object, stopovers: object[]) => ({
+    origin,
+    destination,
+    departure,
+    arrival: departure,
+    line: S5,
+    stopovers
+  });
+
+  return {
+    type: 'journey',
+    legs: [
+      leg(alexanderplatz, friedrichstr, [
+        { stop: alexanderplatz, remarks: [RAMP_HINT] },
+        // Outages where the train only passes through do not affect the journey
+        { stop: hackescher, remarks: [ELEVATOR_OUTAGE] },
+        { stop: friedrichstr, remarks: friedrichstrRemarks }
+      ]),
+      leg(friedrichstr, potsdamer, [{ stop: friedrichstr }, { stop: potsdamer }])
+    ]
+  };
+}
+
+/**
+ * Client answering journey searches with one page per laterThan cursor
+ */
+function journeysClient(): BvgClient & { queries: Record<string, any>[] } {
+  const queries: Record<string, any>[] = [];
+  return {
+    queries,
+    async get<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
+      if (endpoint === '/journeys') {
+        queries.push(params);
+        return (params.laterThan
+          ? { journeys: [journey('2026-10-18T10:20:00+02:00', [])] }
+          : { journeys: [journey('2026-10-18T10:00:00+02:00', [ELEVATOR_OUTAGE])], laterRef: 'later-1' }) as T;
+      }
+      if (endpoint === '/stops/900100001') {
+        return friedrichstr as T;
+      }
+      if (endpoint === '/stops/900100001/departures') {
+        return { departures: [{ tripId: '1', stop: friedrichstr, when: RECORDED_AT, line: S5, remarks: [ELEVATOR_OUTAGE, RAMP_HINT] }] } as T;
+      }
+      throw new Error(`Unexpected request to ${endpoint}`);
+    }
+  };
+}
+
+describe('accessible mode', () => {
+  test('bvg_journey_plan replaces journeys changing at stations with outages', async () => {
+    const api = journeysClient();
+    const client: Client = await connectClient({ client: api });
+
+    const result = await client.callTool({
+      name: 'bvg_journey_plan',
+      arguments: { from: '900100003', to: '900100020', departure: RECORDED_AT, results: 1, accessible: true, walkingSpeed: 'slow' }
+    });
+    const { journeys, accessibility, replanned } = result.structuredContent as any;
+
+    assert.equal(api.queries[0].accessibility, 'complete');
+    assert.equal(api.queries[0].stopovers, true);
+    assert.equal(api.queries[0].transferTime, 10);
+    assert.equal(api.queries[1].laterThan, 'later-1');
+    assert.equal(api.queries[1].departure, undefined);
+
+    assert.equal(replanned, true);
+    assert.equal(journeys.length, 1);
+    assert.equal(journeys[0].legs[0].departure, '2026-10-18T10:20:00+02:00');
+    assert.equal(journeys[0].legs[0].stopovers, undefined);
+    assert.equal(accessibility[0].affected, false);
+    assert.deepEqual(accessibility[0].outages.map((outage: any) => outage.stopId), ['900100002']);
+    assert.deepEqual(accessibility[0].stops[0], { id: '900100003', name: 'S+U Alexanderplatz (Berlin)', remarks: [RAMP_HINT.text] });
+    await client.close();
+  });
+
+  test('accessible mode takes precedence over the accessibility of saved places', async () => {
+    const api = journeysClient();
+    const client: Client = await connectClient({ client: api });
+    const plan = { from: '900100003', to: 'office', departure: RECORDED_AT, results: 1 };
+
+    try {
+      await client.callTool({ name: 'bvg_places_save', arguments: { name: 'office', coordinates: '52.5096,13.3759', accessibility: 'partial' } });
+      await client.callTool({ name: 'bvg_journey_plan', arguments: plan });
+      await client.callTool({ name: 'bvg_journey_plan', arguments: { ...plan, accessible: true } });
+
+      assert.equal(api.queries[0].accessibility, 'partial');
+      assert.equal(api.queries[1].accessibility, 'complete');
+    } finally {
+      await client.callTool({ name: 'bvg_places_delete', arguments: { name: 'office' } });
+      await client.close();
+    }
+  });
+
+  test('bvg_stop_details reports facility remarks and outages', async () => {
+    const client: Client = await connectClient({ client: journeysClient() });
+
+    const result = await client.callTool({ name: 'bvg_stop_details', arguments: { stopId: '900100001', accessible: true } });
+    const { accessibility } = result.structuredContent as any;
+
+    assert.equal(accessibility.available, true);
+    assert.deepEqual(accessibility.remarks, [ELEVATOR_OUTAGE.text, RAMP_HINT.text]);
+    assert.deepEqual(accessibility.outages, [{
+      facility: 'elevator',
+      stopId: '900100001',
+      stopName: 'S+U Friedrichstr. (Berlin)',
+      text: ELEVATOR_OUTAGE.text
+    }]);
+    await client.close();
+  });
+
+  test('bvg_stop_details marks accessibility as unavailable offline', async () => {
+    const { setFallbackSource } = await import('../src/data/source.js');
+    const { UpstreamUnavailableError } = await import('../src/utils/errors.js');
+    const unavailable: BvgClient = {
+      async get<T>(): Promise<T> {
+        throw new UpstreamUnavailableError('BVG API returned 503');
+      }
+    };
+    setFallbackSource(timetableStub({ stop: async () => friedrichstr }));
+    const client: Client = await connectClient({ client: unavailable });
+
+    try {
+      const result = await client.callTool({ name: 'bvg_stop_details', arguments: { stopId: '900100001', accessible: true } });
+      const { accessibility } = result.structuredContent as any;
+
+      assert.deepEqual(accessibility, { available: false, reason: 'not available offline' });
+    } finally {
+      setFallbackSource(undefined);
+      await client.close();
+    }
+  });
+
+  test('leg outages only affect journeys using the station they name', async () => {
+    const { journeyAccessibility } = await import('../src/utils/accessibility.js');
+    const withLegRemark = (text: string) => {
+      const planned = journey('2026-10-18T10:00:00+02:00', []);
+      return { ...planned, legs: [{ ...planned.legs[0], remarks: [{ type: 'warning', text }] }, planned.legs[1]] } as unknown as Journey;
+    };
+
+    assert.equal(journeyAccessibility(withLegRemark('Aufzug im Bahnhof Friedrichstraße außer Betrieb')).affected, true);
+    assert.equal(journeyAccessibility(withLegRemark('Aufzug im Bahnhof Hackescher Markt außer Betrieb')).affected, false);
+  });
+});
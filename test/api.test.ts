@@ -0,0 +1,37 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BvgApiClient } from '../src/utils/api.js';
+import { NotFoundError, UpstreamUnavailableError, wrapError } from '../src/utils/errors.js';
+
+const originalFetch = globalThis.fetch;
+
+describe('API client', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('reports a malformed body of a successful response as unavailable', async () => {
+    globalThis.fetch = async () => new Response('<html>Maintenance</html>', { status: 200 });
+    const client = new BvgApiClient('http://localhost:3001', { cache: false, maxRetries: 0 });
+
+    await assert.rejects(
+      client.get('/stops/900100003'),
+      (error: unknown) => error instanceof UpstreamUnavailableError && /Invalid response from BVG API/.test(error.message)
+    );
+  });
+
+  test('adds context without modifying the shared error', async () => {
+    globalThis.fetch = async () => new Response('Not Found', { status: 404, statusText: 'Not Found' });
+    const client = new BvgApiClient('http://localhost:3001', { cache: false, maxRetries: 0 });
+
+    // Both callers share the rejection of one coalesced request
+    const results = await Promise.allSettled([client.get('/stops/1'), client.get('/stops/1')]);
+    const errors = results.map(result => wrapError('Failed to get stop details', (result as PromiseRejectedResult).reason));
+
+    errors.forEach(error => {
+      assert.ok(error instanceof NotFoundError);
+      assert.equal(error.message, 'Failed to get stop details: Not found: Not Found');
+    });
+    assert.equal((errors[0] as NotFoundError).cause, (results[0] as PromiseRejectedResult).reason);
+  });
+});
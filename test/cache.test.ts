@@ -0,0 +1,29 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ResponseCache } from '../src/utils/cache.js';
+
+describe('response cache', () => {
+  test('evicts the least recently used entry', () => {
+    const cache = new ResponseCache({ maxEntries: 2 });
+    cache.set('a', 1, 60000);
+    cache.set('b', 2, 60000);
+    cache.get('a');
+    cache.set('c', 3, 60000);
+
+    assert.equal(cache.get('a'), 1);
+    assert.equal(cache.get('b'), undefined);
+    assert.equal(cache.get('c'), 3);
+  });
+
+  test('returns copies that callers may modify', () => {
+    const cache = new ResponseCache();
+    const value = { stops: [{ id: '900100003' }] };
+    cache.set('stops', value, 60000);
+    value.stops.length = 0;
+
+    const first = cache.get<typeof value>('stops')!;
+    first.stops[0].id = 'changed';
+
+    assert.deepEqual(cache.get('stops'), { stops: [{ id: '900100003' }] });
+  });
+});
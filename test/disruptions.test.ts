@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { connectClient, stop, unusedClient } from './helpers.js';
+
+const { aggregateRemarks } = await import('../src/tools/disruptions.js');
+
+function line(name: string) {
+  return { type: 'line', id: name.toLowerCase(), name, public: true, mode: 'train', product: 'subway' };
+}
+
+const alexanderplatz = stop('900100003', 'S+U Alexanderplatz (Berlin)');
+const hermannplatz = stop('900078101', 'U Hermannplatz (Berlin)');
+
+const CONSTRUCTION = { type: 'warning', id: 'him-1', text: 'Bauarbeiten zwischen Alexanderplatz und Hermannplatz' } as const;
+const LIFT = { type: 'status', code: 'lift', text: 'Aufzug außer Betrieb ' } as const;
+const BICYCLES = { type: 'hint', code: 'FB', text: 'Fahrradmitnahme möglich' } as const;
+
+describe('disruptions', () => {
+  test('merges remarks by id or by code and text, grouping lines and stops', () => {
+    const disruptions = aggregateRemarks([
+      { remark: LIFT, line: 'U8', stop: alexanderplatz },
+      { remark: { ...CONSTRUCTION, text: 'Construction works' }, line: 'U8', stop: hermannplatz },
+      { remark: CONSTRUCTION, line: 'U8', stop: alexanderplatz },
+      { remark: { ...LIFT, text: 'aufzug außer betrieb' }, line: 'U2', stop: alexanderplatz },
+      { remark: CONSTRUCTION, line: 'U5' },
+      { remark: BICYCLES, line: 'U8' }
+    ], false);
+
+    assert.deepEqual(disruptions.map(disruption => [disruption.severity, disruption.lines, disruption.stops.map(entry => entry.id)]), [
+      ['high', ['U8', 'U5'], ['900078101', '900100003']],
+      ['medium', ['U8', 'U2'], ['900100003']]
+    ]);
+  });
+
+  test('includes hints last when asked to', () => {
+    const disruptions = aggregateRemarks([
+      { remark: BICYCLES, line: 'U8' },
+      { remark: LIFT, line: 'U8' },
+      { remark: CONSTRUCTION, line: 'U8' }
+    ], true);
+
+    assert.deepEqual(disruptions.map(disruption => disruption.severity), ['high', 'medium', 'low']);
+  });
+
+  test('bvg_disruptions collects remarks from the departures of a stop', async () => {
+    const api: BvgClient = {
+      async get<T>(): Promise<T> {
+        return { departures: [
+          { tripId: '1', stop: alexanderplatz, when: '2026-10-18T10:00:00+02:00', line: line('U8'), remarks: [CONSTRUCTION, BICYCLES] },
+          { tripId: '2', stop: alexanderplatz, when: '2026-10-18T10:05:00+02:00', line: line('U2'), remarks: [LIFT] }
+        ] } as T;
+      }
+    };
+    const client: Client = await connectClient({ client: api });
+
+    const result = await client.callTool({ name: 'bvg_disruptions', arguments: { stopId: '900100003' } });
+    const { disruptions, sources } = result.structuredContent as any;
+
+    assert.deepEqual(sources, { departures: 2, trips: 0 });
+    assert.deepEqual(disruptions.map((disruption: any) => [disruption.text, disruption.lines]), [
+      [CONSTRUCTION.text, ['U8']],
+      [LIFT.text, ['U2']]
+    ]);
+    await client.close();
+  });
+
+  test('bvg_disruptions requires all four bounds of an area', async () => {
+    const client: Client = await connectClient({ client: unusedClient });
+
+    await assert.rejects(
+      client.callTool({ name: 'bvg_disruptions', arguments: { north: 52.53, west: 13.39, south: 52.51 } }),
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams && /north, west, south and east/.test(error.message)
+    );
+    await client.close();
+  });
+});
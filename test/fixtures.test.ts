@@ -0,0 +1,60 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server as HttpServer } from 'node:http';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BvgApiClient } from '../src/utils/api.js';
+import { NotFoundError, UpstreamUnavailableError } from '../src/utils/errors.js';
+import { FixtureStore } from '../src/utils/fixtures.js';
+import { mockUpstreamUrl, startMockUpstream } from '../src/mock-upstream.js';
+import { FIXTURES_DIR } from './helpers.js';
+
+describe('fixture recording and replay', () => {
+  let upstream: HttpServer;
+  let recordDir: string;
+
+  before(async () => {
+    upstream = await startMockUpstream({ fixturesDir: FIXTURES_DIR });
+    recordDir = await mkdtemp(join(tmpdir(), 'mcp-bvg-fixtures-'));
+  });
+
+  after(async () => {
+    await new Promise(resolve => upstream.close(resolve));
+    await rm(recordDir, { recursive: true, force: true });
+  });
+
+  test('matches requests regardless of query parameter order', () => {
+    const store = new FixtureStore(recordDir, 'replay');
+
+    assert.equal(
+      store.fileFor(new URL('http://a/stops/1/departures?duration=10&when=now')),
+      store.fileFor(new URL('http://b/stops/1/departures?when=now&duration=10'))
+    );
+    assert.notEqual(
+      store.fileFor(new URL('http://a/stops/1/departures?duration=10')),
+      store.fileFor(new URL('http://a/stops/1/departures?duration=20'))
+    );
+  });
+
+  test('replays recorded responses and errors without the upstream', async () => {
+    const recorder = new BvgApiClient(mockUpstreamUrl(upstream), {
+      cache: false,
+      maxRetries: 0,
+      fixtures: new FixtureStore(recordDir, 'record')
+    });
+    const recorded = await recorder.get<{ name: string }>('/stops/900100003', { linesOfStops: false, language: 'en' });
+    await assert.rejects(recorder.get('/stops/900999999', { linesOfStops: false, language: 'en' }), NotFoundError);
+    assert.equal((await readdir(recordDir)).length, 2);
+
+    // The base URL points nowhere, every answer has to come from the fixtures
+    const replayer = new BvgApiClient('http://127.0.0.1:9', {
+      cache: false,
+      maxRetries: 0,
+      fixtures: new FixtureStore(recordDir, 'replay')
+    });
+    assert.deepEqual(await replayer.get('/stops/900100003', { language: 'en', linesOfStops: false }), recorded);
+    await assert.rejects(replayer.get('/stops/900999999', { linesOfStops: false, language: 'en' }), NotFoundError);
+    await assert.rejects(replayer.get('/stops/900100001'), UpstreamUnavailableError);
+  });
+});
@@ -0,0 +1,200 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { crc32, deflateRawSync } from 'node:zlib';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { connectClient } from './helpers.js';
+
+// Must be set before the server modules load their configuration
+process.env.BVG_NETWORKS = 'vbb=https://v6.vbb.transport.rest';
+
+const { GtfsTimetable, parseCsvLine } = await import('../src/data/gtfs.js');
+const { setFallbackSource } = await import('../src/data/source.js');
+const { openZipEntry, readZipEntries } = await import('../src/data/zip.js');
+const { BvgErrorCode, UpstreamUnavailableError } = await import('../src/utils/errors.js');
+
+const FEED_FILE = join(tmpdir(), `mcp-bvg-test-${process.pid}.zip`);
+
+/**
+ * Minimal zip archive writer, storing or deflating each entry
+ */
+function zipArchive(files: Record<string, string>, deflate: boolean): Buffer {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const data = Buffer.from(content);
+    const stored = deflate ? deflateRawSync(data) : data;
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, stored);
+    directory.push(central, nameBytes);
+    offset += local.length + nameBytes.length + stored.length;
+  });
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...directory, end]);
+}
+
+/**
+ * Feed with trips from Alexanderplatz to Friedrichstr. around midnight,
+ * running every day
+ */
+const FEED = {
+  'agency.txt': 'agency_id,agency_name\n1,"Berliner Verkehrsbetriebe"\n',
+  'stops.txt': [
+    'stop_id,stop_name,stop_lat,stop_lon,parent_station',
+    'de:11000:900100003,"S+U Alexanderplatz (Berlin)",52.5219,13.4114,',
+    'de:11000:900100001,"S+U Friedrichstr. (Berlin)",52.5203,13.3873,'
+  ].join('\n'),
+  'routes.txt': 'route_id,agency_id,route_short_name,route_long_name,route_type\nn5,1,N5,,700\n',
+  'calendar.txt': 'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date\ndaily,1,1,1,1,1,1,1,20260101,20261231\n',
+  'trips.txt': [
+    'route_id,service_id,trip_id,trip_headsign',
+    ...['before-midnight', 'after-midnight', 'early', 'late'].map(trip => `n5,daily,${trip},Friedrichstr.`)
+  ].join('\n'),
+  'stop_times.txt': [
+    'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+    ...[
+      ['before-midnight', '23:55:00', '24:05:00'],
+      // Service day before, after midnight
+      ['after-midnight', '24:20:00', '24:30:00'],
+      ['early', '00:10:00', '00:20:00'],
+      ['late', '00:40:00', '00:50:00']
+    ].flatMap(([trip, departure, arrival]) => [
+      `${trip},${departure},${departure},de:11000:900100003,1`,
+      `${trip},${arrival},${arrival},de:11000:900100001,2`
+    ])
+  ].join('\n')
+};
+
+/**
+ * Client whose upstream is always unavailable
+ */
+const unavailableClient: BvgClient = {
+  async get<T>(): Promise<T> {
+    throw new UpstreamUnavailableError('BVG API returned 503');
+  }
+};
+
+describe('GTFS timetable', () => {
+  before(async () => {
+    await writeFile(FEED_FILE, zipArchive(FEED, true));
+  });
+
+  after(async () => {
+    setFallbackSource(undefined);
+    await rm(FEED_FILE, { force: true });
+  });
+
+  test('parseCsvLine handles quoted fields and escaped quotes', () => {
+    assert.deepEqual(parseCsvLine('a,,c'), ['a', '', 'c']);
+    assert.deepEqual(parseCsvLine('1,"Platz, der ""Republik""",'), ['1', 'Platz, der "Republik"', '']);
+  });
+
+  test('reads stored and deflated zip entries', async () => {
+    for (const deflate of [false, true]) {
+      const file = join(tmpdir(), `mcp-bvg-test-${process.pid}-${deflate}.zip`);
+      await writeFile(file, zipArchive({ 'a.txt': 'stored or deflated', 'empty.txt': '' }, deflate));
+
+      const entries = await readZipEntries(file);
+      const chunks: Buffer[] = [];
+      for await (const chunk of await openZipEntry(file, entries.get('a.txt')!)) {
+        chunks.push(chunk);
+      }
+
+      assert.deepEqual(Array.from(entries.keys()), ['a.txt', 'empty.txt']);
+      assert.equal(Buffer.concat(chunks).toString(), 'stored or deflated');
+      await rm(file);
+    }
+  });
+
+  test('departure boards include trips of the previous service day after midnight', async () => {
+    const timetable = new GtfsTimetable(FEED_FILE);
+    const departures = await timetable.departures('900100003', { when: '2026-10-18T23:50:00+02:00', duration: 40 });
+
+    assert.deepEqual(departures.map(departure => [departure.tripId, departure.when]), [
+      ['before-midnight', '2026-10-18T23:55:00+02:00'],
+      ['early', '2026-10-19T00:10:00+02:00'],
+      ['after-midnight', '2026-10-19T00:20:00+02:00']
+    ]);
+  });
+
+  test('direction only keeps trips calling at that stop later on', async () => {
+    const timetable = new GtfsTimetable(FEED_FILE);
+    const query = { when: '2026-10-18T23:50:00+02:00', duration: 40 };
+
+    const towardsFriedrichstr = await timetable.departures('900100003', { ...query, direction: '900100001' });
+    const towardsAlexanderplatz = await timetable.departures('900100003', { ...query, direction: 'de:11000:900100003' });
+
+    assert.deepEqual(towardsFriedrichstr.map(departure => departure.tripId), ['before-midnight', 'early', 'after-midnight']);
+    assert.deepEqual(towardsAlexanderplatz, []);
+  });
+
+  test('answers from the timetable only for the network it covers', async () => {
+    setFallbackSource(new GtfsTimetable(FEED_FILE), 'bvg');
+    const client: Client = await connectClient({ client: unavailableClient, networks: new Map([['vbb', unavailableClient]]) });
+    const args = { stopId: '900100003', when: '2026-10-18T23:50:00+02:00', duration: 10 };
+
+    const result = await client.callTool({ name: 'bvg_stop_departures', arguments: { ...args, format: 'markdown' } });
+    const { departures } = result.structuredContent as any;
+    assert.deepEqual(departures.map((departure: any) => departure.tripId), ['before-midnight']);
+    assert.equal(departures[0].scheduledOnly, true);
+    assert.equal(departures[0].remarks, undefined);
+    assert.match((result.content as any)[0].text, /Scheduled times only/);
+
+    await assert.rejects(
+      client.callTool({ name: 'bvg_stop_departures', arguments: { ...args, network: 'vbb' } }),
+      (error: unknown) => error instanceof McpError && error.code === BvgErrorCode.UpstreamUnavailable
+    );
+    await client.close();
+  });
+
+  test('composite tools pass the network on to the tools they call', async () => {
+    setFallbackSource(new GtfsTimetable(FEED_FILE), 'bvg');
+    const client: Client = await connectClient({ client: unavailableClient, networks: new Map([['vbb', unavailableClient]]) });
+    const args = { stopIds: ['900100003'], when: '2026-10-18T23:50:00+02:00', duration: 10 };
+
+    const result = await client.callTool({ name: 'bvg_departure_monitor', arguments: args });
+    const { departures } = result.structuredContent as any;
+    assert.deepEqual(departures.map((departure: any) => departure.tripId), ['before-midnight']);
+
+    await assert.rejects(
+      client.callTool({ name: 'bvg_departure_monitor', arguments: { ...args, network: 'vbb' } }),
+      (error: unknown) => error instanceof McpError && error.code === BvgErrorCode.UpstreamUnavailable
+    );
+    await client.close();
+  });
+});
@@ -0,0 +1,78 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { TimetableSource } from '../src/data/source.js';
+import type { ServerOptions } from '../src/index.js';
+import type { Stop } from '../src/types/bvg.js';
+import type { BvgClient } from '../src/utils/api.js';
+
+// Keep saved places of the developer running the tests out of the way.
+// Set on import, so before any test loads the server modules.
+process.env.BVG_PROFILE_FILE = join(tmpdir(), `mcp-bvg-test-${process.pid}.json`);
+
+/**
+ * Fixtures served by the mock upstream. Tests run from build-test/test.
+ */
+export const FIXTURES_DIR = fileURLToPath(new URL('../../test/fixtures', import.meta.url));
+
+/**
+ * Fixed time the departure, arrival and journey fixtures were recorded for
+ */
+export const RECORDED_AT = '2026-10-18T10:00:00+02:00';
+
+/**
+ * Client that fails the test when a tool reaches the upstream
+ */
+export const unusedClient: BvgClient = {
+  async get<T>(endpoint: string): Promise<T> {
+    throw new Error(`Unexpected request to ${endpoint}`);
+  }
+};
+
+/**
+ * Fallback timetable answering with the given methods, failing the test
+ * when any other method is called
+ */
+export function timetableStub(methods: Partial<TimetableSource>): TimetableSource {
+  const unexpected = (method: string) => async (): Promise<never> => {
+    throw new Error(`Unexpected call to ${method}`);
+  };
+
+  return {
+    name: 'test timetable',
+    searchStops: unexpected('searchStops'),
+    nearbyStops: unexpected('nearbyStops'),
+    stop: unexpected('stop'),
+    departures: unexpected('departures'),
+    arrivals: unexpected('arrivals'),
+    trip: unexpected('trip'),
+    ...methods
+  };
+}
+
+/**
+ * Subway stop with the given ID and name, in central Berlin unless placed elsewhere
+ */
+export function stop(id: string, name: string, latitude = 52.52, longitude = 13.41): Stop {
+  return { type: 'stop', id, name, location: { type: 'location', latitude, longitude }, products: { subway: true } };
+}
+
+/**
+ * Connect an MCP client to a fresh server instance over an in-memory transport
+ */
+export async function connectClient(options: ServerOptions): Promise<Client> {
+  // Imported lazily so that tests can configure the environment first
+  const { createServer } = await import('../src/index.js');
+  const server = createServer(options);
+  const client = new Client({ name: 'mcp-bvg-test', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport)
+  ]);
+
+  return client;
+}
@@ -0,0 +1,60 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server as HttpServer } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { startHttpServer } from '../src/http.js';
+import { sleep } from '../src/utils/api.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'mcp-bvg-test', version: '1.0.0' } }
+};
+
+describe('Streamable HTTP transport', () => {
+  let httpServer: HttpServer;
+  let baseUrl: string;
+
+  before(async () => {
+    httpServer = await startHttpServer(
+      () => new Server({ name: 'mcp-bvg-test', version: '1.0.0' }, { capabilities: {} }),
+      { port: 0, host: '127.0.0.1', path: '/mcp', sessionIdleTimeoutMs: 100 }
+    );
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    const closed = new Promise(resolve => httpServer.close(resolve));
+    httpServer.closeAllConnections();
+    await closed;
+  });
+
+  const sessionCount = async () => ((await (await fetch(`${baseUrl}/health`)).json()) as { sessions: number }).sessions;
+
+  test('closes sessions of clients that went away without DELETE', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+      body: JSON.stringify(INITIALIZE)
+    });
+    await response.text();
+
+    assert.ok(response.headers.get('mcp-session-id'));
+    assert.equal(await sessionCount(), 1);
+
+    await sleep(300);
+    assert.equal(await sessionCount(), 0);
+  });
+
+  test('rejects oversized request bodies with 413', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+      body: JSON.stringify({ ...INITIALIZE, padding: 'x'.repeat(2 * 1024 * 1024) })
+    });
+
+    assert.equal(response.status, 413);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { connectClient, RECORDED_AT, stop } from './helpers.js';
+
+// Must be set before the server modules load their configuration
+process.env.BVG_NETWORKS = 'vbb=https://v6.vbb.transport.rest';
+
+function journey(departureDelay: number) {
+  return {
+    type: 'journey',
+    refreshToken: 'token-1',
+    legs: [{
+      origin: stop('900100003', 'S+U Alexanderplatz (Berlin)'),
+      destination: stop('900100001', 'S+U Friedrichstr. (Berlin)'),
+      departure: RECORDED_AT,
+      departureDelay,
+      line: { type: 'line', id: 's5', name: 'S5', public: true, mode: 'train', product: 'suburban' }
+    }]
+  };
+}
+
+/**
+ * Client planning an on-time journey whose delay grows by a minute with every refresh
+ */
+function delayingClient(): BvgClient {
+  let refreshes = 0;
+  return {
+    async get<T>(endpoint: string): Promise<T> {
+      return (endpoint === '/journeys'
+        ? { journeys: [journey(0)] }
+        : { journey: journey(++refreshes * 60) }) as T;
+    }
+  };
+}
+
+describe('journey refresh', () => {
+  test('compares every refresh with the journey as planned', async () => {
+    const api = delayingClient();
+    const client: Client = await connectClient({ networks: new Map([['bvg', api], ['vbb', api]]) });
+    const refresh = async (network?: string) =>
+      (await client.callTool({ name: 'bvg_journey_refresh', arguments: { refreshToken: 'token-1', network } })).structuredContent as any;
+
+    await client.callTool({ name: 'bvg_journey_plan', arguments: { from: '900100003', to: '900100001', departure: RECORDED_AT } });
+    await refresh();
+    const second = await refresh();
+
+    assert.deepEqual(second.changes, [{ leg: 1, line: 'S5', field: 'departureDelay', previous: 0, current: 120 }]);
+
+    // Refresh tokens of one network mean nothing on another
+    assert.equal((await refresh('vbb')).compared, false);
+    await client.close();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Stop, Trip } from '../src/types/bvg.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { BvgErrorCode } from '../src/utils/errors.js';
+import { connectClient, stop } from './helpers.js';
+
+const { pickDirections } = await import('../src/tools/lines.js');
+
+const U2 = { type: 'line', id: 'u2', name: 'U2', public: true, mode: 'train', product: 'subway' } as const;
+
+const pankow = stop('900130002', 'S+U Pankow (Berlin)');
+const alexanderplatz = stop('900100003', 'S+U Alexanderplatz (Berlin)');
+const ruhleben = stop('900025202', 'U Ruhleben (Berlin)');
+
+/**
+ * Trip of the U2 along the given stops, in the direction of the last one
+ */
+function trip(id: string, stops: Stop[], direction = stops[stops.length - 1].name): Trip {
+  return {
+    id,
+    origin: stops[0],
+    destination: stops[stops.length - 1],
+    line: U2,
+    direction,
+    stopovers: stops.map(at => ({ stop: at }))
+  };
+}
+
+describe('line info', () => {
+  test('pickDirections pairs the longest trip with the opposite direction', () => {
+    const main = trip('main', [pankow, alexanderplatz, ruhleben]);
+    const short = trip('short', [alexanderplatz, pankow]);
+    const back = trip('back', [ruhleben, pankow]);
+
+    // A trip ending where the main trip starts wins over other directions
+    assert.deepEqual(pickDirections([short, main, back]).map(entry => entry.id), ['main', 'short']);
+
+    // Then a destination of the same name, e.g. another platform of the station
+    const renamed = trip('renamed', [ruhleben, { ...pankow, id: '900130011' }]);
+    const sideways = trip('sideways', [alexanderplatz, stop('900100001', 'S+U Friedrichstr. (Berlin)')], 'Friedrichstr.');
+    assert.deepEqual(pickDirections([main, sideways, renamed]).map(entry => entry.id), ['main', 'renamed']);
+
+    // Otherwise any trip with another direction and destination
+    assert.deepEqual(pickDirections([main, sideways]).map(entry => entry.id), ['main', 'sideways']);
+    assert.deepEqual(pickDirections([main, trip('same', [alexanderplatz, ruhleben])]).map(entry => entry.id), ['main']);
+    assert.deepEqual(pickDirections([]), []);
+  });
+
+  test('bvg_line_info falls back to trips that are not running right now', async () => {
+    const trips = [trip('main', [pankow, alexanderplatz, ruhleben]), trip('back', [ruhleben, pankow])];
+    const queries: Record<string, any>[] = [];
+    const api: BvgClient = {
+      async get<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
+        if (endpoint === '/trips') {
+          queries.push(params);
+          return { trips: params.onlyCurrentlyRunning ? [] : trips } as T;
+        }
+        return { trip: trips.find(candidate => endpoint === `/trips/${candidate.id}`) } as T;
+      }
+    };
+    const client: Client = await connectClient({ client: api });
+
+    const result = await client.callTool({ name: 'bvg_line_info', arguments: { line: 'U2' } });
+    const { line, directions } = result.structuredContent as any;
+
+    assert.deepEqual(queries.map(query => query.onlyCurrentlyRunning), [true, false]);
+    assert.equal(line.name, 'U2');
+    assert.deepEqual(directions.map((direction: any) => direction.stops.map((entry: any) => entry.id)), [
+      ['900130002', '900100003', '900025202'],
+      ['900025202', '900130002']
+    ]);
+    await client.close();
+  });
+
+  test('bvg_line_info reports lines without trips as not found', async () => {
+    const client: Client = await connectClient({ client: { get: async <T>() => ({ trips: [] }) as T } });
+
+    await assert.rejects(
+      client.callTool({ name: 'bvg_line_info', arguments: { line: 'U99' } }),
+      (error: unknown) => error instanceof McpError && error.code === BvgErrorCode.NotFound && /No trips found for line U99/.test(error.message)
+    );
+    await client.close();
+  });
+});
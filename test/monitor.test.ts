@@ -0,0 +1,72 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { BvgErrorCode, NotFoundError } from '../src/utils/errors.js';
+import { connectClient, stop } from './helpers.js';
+
+const U2 = { type: 'line', id: 'u2', name: 'U2', public: true, mode: 'train', product: 'subway' };
+
+const platformA = stop('900100703', 'U Alexanderplatz [U2]');
+const platformB = stop('900100704', 'U Alexanderplatz [U8]');
+const platformC = stop('900100705', 'S Alexanderplatz');
+
+function departure(tripId: string, at: typeof platformA, when: string) {
+  return { tripId, stop: at, when, plannedWhen: when, line: U2 };
+}
+
+/**
+ * Client answering a nearby search with three platforms, the last of which has no board
+ */
+function monitorClient(): BvgClient {
+  return {
+    async get<T>(endpoint: string): Promise<T> {
+      switch (endpoint) {
+        case '/locations/nearby':
+          return [
+            { ...platformA, distance: 120 },
+            { ...platformB, distance: 40 },
+            { ...platformC, distance: 300 }
+          ] as T;
+        case '/stops/900100703/departures':
+          return { departures: [
+            departure('trip-1', platformA, '2026-10-18T10:05:00+02:00'),
+            departure('trip-2', platformA, '2026-10-18T10:02:00+02:00')
+          ] } as T;
+        case '/stops/900100704/departures':
+          return { departures: [departure('trip-1', platformB, '2026-10-18T10:06:00+02:00')] } as T;
+        default:
+          throw new NotFoundError(`No board at ${endpoint}`);
+      }
+    }
+  };
+}
+
+describe('departure monitor', () => {
+  test('merges boards, keeping each trip at the closest stop', async () => {
+    const client: Client = await connectClient({ client: monitorClient() });
+
+    const result = await client.callTool({ name: 'bvg_departure_monitor', arguments: { coordinates: '52.52,13.41' } });
+    const { stops, departures } = result.structuredContent as any;
+
+    assert.deepEqual(departures.map((entry: any) => [entry.tripId, entry.stop.id, entry.walkingDistance]), [
+      ['trip-2', '900100703', 120],
+      ['trip-1', '900100704', 40]
+    ]);
+    assert.equal(stops.find((entry: any) => entry.id === '900100705').error, 'Failed to get stop departures: No board at /stops/900100705/departures');
+    assert.equal(stops.filter((entry: any) => entry.error).length, 1);
+    await client.close();
+  });
+
+  test('fails when no board could be loaded', async () => {
+    const client: Client = await connectClient({ client: monitorClient() });
+
+    await assert.rejects(
+      client.callTool({ name: 'bvg_departure_monitor', arguments: { stopIds: ['900100705', '900100706'] } }),
+      (error: unknown) => error instanceof McpError && error.code === BvgErrorCode.NotFound &&
+        /Failed to get departures for any monitored stop/.test(error.message)
+    );
+    await client.close();
+  });
+});
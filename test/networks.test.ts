@@ -0,0 +1,104 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { connectClient } from './helpers.js';
+
+// Must be set before the server modules load their configuration
+process.env.BVG_NETWORKS = 'vbb=https://v6.vbb.transport.rest';
+
+/**
+ * Client answering every request with the same locations, remembering the endpoints
+ */
+function stubClient(name: string): BvgClient & { endpoints: string[] } {
+  const endpoints: string[] = [];
+  return {
+    endpoints,
+    async get<T>(endpoint: string): Promise<T> {
+      endpoints.push(endpoint);
+      return [{ type: 'stop', id: '900100003', name, location: { type: 'location', latitude: 52.52, longitude: 13.41 }, products: {} }] as T;
+    }
+  };
+}
+
+describe('networks', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mcp-bvg-config-'));
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('routes tool calls to the client of the requested network', async () => {
+    const bvg = stubClient('from bvg');
+    const vbb = stubClient('from vbb');
+    const client: Client = await connectClient({ networks: new Map([['bvg', bvg], ['vbb', vbb]]) });
+
+    const fromDefault = await client.callTool({ name: 'bvg_locations_search', arguments: { query: 'Alexanderplatz' } });
+    const fromVbb = await client.callTool({ name: 'bvg_locations_search', arguments: { query: 'Alexanderplatz', network: 'vbb' } });
+
+    assert.equal((fromDefault.structuredContent as any).locations[0].name, 'from bvg');
+    assert.equal((fromVbb.structuredContent as any).locations[0].name, 'from vbb');
+    assert.deepEqual(bvg.endpoints, ['/locations']);
+    assert.deepEqual(vbb.endpoints, ['/locations']);
+
+    await assert.rejects(
+      client.callTool({ name: 'bvg_locations_search', arguments: { query: 'Alexanderplatz', network: 'db' } }),
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams
+    );
+    await client.close();
+  });
+
+  test('merges the config file with environment variables', async () => {
+    const { loadConfig } = await import('../src/utils/config.js');
+    const configFile = join(dir, 'config.json');
+    await writeFile(configFile, JSON.stringify({
+      defaultNetwork: 'vbb',
+      language: 'de',
+      timeoutMs: 5000,
+      networks: {
+        vbb: { baseUrl: 'https://v6.vbb.transport.rest' },
+        db: { baseUrl: 'https://v6.db.transport.rest', timeoutMs: 20000 }
+      }
+    }));
+
+    const config = loadConfig({ BVG_CONFIG_FILE: configFile, BVG_API_BASE_URL: 'http://localhost:3001', BVG_USER_AGENT: 'test/1.0' });
+
+    assert.equal(config.defaultNetwork, 'vbb');
+    assert.equal(config.language, 'de');
+    assert.deepEqual(config.networks.map(network => [network.name, network.baseUrl, network.timeoutMs, network.userAgent]), [
+      ['bvg', 'https://v6.bvg.transport.rest', 5000, 'test/1.0'],
+      ['vbb', 'http://localhost:3001', 5000, 'test/1.0'],
+      ['db', 'https://v6.db.transport.rest', 20000, 'test/1.0']
+    ]);
+
+    assert.throws(() => loadConfig({ BVG_CONFIG_FILE: configFile, BVG_NETWORK: 'hvv' }), /Default network "hvv"/);
+    assert.throws(() => loadConfig({ BVG_CONFIG_FILE: join(dir, 'missing.json') }), /does not exist/);
+  });
+
+  test('validates environment variables like the config file', async () => {
+    const { loadConfig } = await import('../src/utils/config.js');
+    const configFile = join(dir, 'empty.json');
+    await writeFile(configFile, '{}');
+
+    const config = loadConfig({
+      BVG_CONFIG_FILE: configFile,
+      BVG_NETWORKS: 'local=http://localhost:3001/?token=a=b',
+      BVG_POLL_INTERVAL_MS: '5000'
+    });
+    assert.equal(config.networks.find(network => network.name === 'local')?.baseUrl, 'http://localhost:3001/?token=a=b');
+    assert.equal(config.pollIntervalMs, 5000);
+
+    assert.throws(() => loadConfig({ BVG_CONFIG_FILE: configFile, BVG_TIMEOUT_MS: 'abc' }), /BVG_TIMEOUT_MS: Expected number, received nan/);
+    assert.throws(() => loadConfig({ BVG_CONFIG_FILE: configFile, BVG_NETWORKS: 'vbb=not a url' }), /BVG_NETWORKS \(vbb.baseUrl\): Invalid url/);
+    assert.throws(() => loadConfig({ BVG_CONFIG_FILE: configFile, BVG_NETWORKS: 'VBB!=https://v6.vbb.transport.rest' }), /BVG_NETWORKS/);
+    assert.throws(() => loadConfig({ BVG_CONFIG_FILE: configFile, BVG_LANGUAGE: 'fr' }), /BVG_LANGUAGE/);
+  });
+});
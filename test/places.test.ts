@@ -0,0 +1,20 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { connectClient, unusedClient } from './helpers.js';
+
+describe('saved places', () => {
+  test('rejects names that look like stop IDs or coordinates', async () => {
+    const client: Client = await connectClient({ client: unusedClient });
+
+    for (const name of ['900100003', 'de:11000:900100003', '52.52, 13.41']) {
+      await assert.rejects(
+        client.callTool({ name: 'bvg_places_save', arguments: { name, coordinates: '52.52,13.41' } }),
+        (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams && /stop ID or coordinates/.test(error.message),
+        name
+      );
+    }
+    await client.close();
+  });
+});
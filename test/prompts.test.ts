@@ -0,0 +1,50 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { connectClient, unusedClient } from './helpers.js';
+
+describe('prompts', () => {
+  test('lists the workflow prompts with their arguments', async () => {
+    const client: Client = await connectClient({ client: unusedClient });
+
+    const { prompts } = await client.listPrompts();
+
+    assert.deepEqual(prompts.map(prompt => prompt.name), ['commute_check', 'departures_near', 'disruption_briefing']);
+    assert.deepEqual(prompts[0].arguments?.map(argument => [argument.name, argument.required]), [
+      ['from', true],
+      ['to', true],
+      ['arriveBy', false]
+    ]);
+    await client.close();
+  });
+
+  test('renders a template with its arguments', async () => {
+    const client: Client = await connectClient({ client: unusedClient });
+
+    const result = await client.getPrompt({ name: 'disruption_briefing', arguments: { lines: 'U8, M10,,S41' } });
+    const [message] = result.messages;
+
+    assert.equal(result.messages.length, 1);
+    assert.equal(message.role, 'user');
+    assert.equal(message.content.type, 'text');
+    const text = (message.content as { text: string }).text;
+    assert.match(text, /^Give me a briefing on current disruptions for U8, M10, S41\./);
+    assert.match(text, /Call bvg_disruptions once per line \(line="U8", line="M10", line="S41"\)/);
+    await client.close();
+  });
+
+  test('rejects missing required arguments and unknown prompts', async () => {
+    const client: Client = await connectClient({ client: unusedClient });
+
+    await assert.rejects(
+      client.getPrompt({ name: 'commute_check', arguments: { from: 'home', to: ' ' } }),
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams && /Missing required arguments: to$/.test(error.message)
+    );
+    await assert.rejects(
+      client.getPrompt({ name: 'weather_report' }),
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams && /Unknown prompt: weather_report/.test(error.message)
+    );
+    await client.close();
+  });
+});
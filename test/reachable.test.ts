@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { ReachableStop } from '../src/types/bvg.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { connectClient, stop } from './helpers.js';
+
+const { bucketStops } = await import('../src/tools/reachable.js');
+
+function reached(id: string, duration: number): ReachableStop {
+  return { id, name: id, duration };
+}
+
+const hermannplatz = stop('900078101', 'U Hermannplatz (Berlin)', 52.4867, 13.4246);
+const boddinstr = stop('900079201', 'U Boddinstr. (Berlin)', 52.4797, 13.4255);
+const rathausNeukoelln = stop('900078102', 'U Rathaus Neukölln (Berlin)', 52.4811, 13.4351);
+
+describe('reachable stops', () => {
+  test('bucketStops puts boundary durations into the lower bucket', () => {
+    const buckets = bucketStops([reached('a', 0), reached('b', 5), reached('c', 6), reached('d', 10), reached('e', 21)], 5);
+
+    assert.deepEqual(buckets.map(bucket => [bucket.minDuration, bucket.maxDuration, bucket.stops.map(entry => entry.id)]), [
+      [0, 5, ['a', 'b']],
+      [5, 10, ['c', 'd']],
+      [20, 25, ['e']]
+    ]);
+  });
+
+  test('bvg_reachable_from looks up stop IDs and keeps the fastest duration per station', async () => {
+    const requests: Array<[string, Record<string, any>]> = [];
+    const api: BvgClient = {
+      async get<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
+        requests.push([endpoint, params]);
+        if (endpoint === '/stops/900078101') return hermannplatz as T;
+        return [
+          { duration: 8, stations: [rathausNeukoelln, boddinstr] },
+          { duration: 3, stations: [boddinstr] }
+        ] as T;
+      }
+    };
+    const client: Client = await connectClient({ client: api });
+
+    const result = await client.callTool({ name: 'bvg_reachable_from', arguments: { origin: '900078101', geojson: true } });
+    const { origin, buckets, geojson } = result.structuredContent as any;
+
+    assert.deepEqual(origin, { address: 'U Hermannplatz (Berlin)', latitude: 52.4867, longitude: 13.4246 });
+    assert.deepEqual(requests.map(([endpoint]) => endpoint), ['/stops/900078101', '/stops/reachable-from']);
+    assert.equal(requests[1][1].address, 'U Hermannplatz (Berlin)');
+    assert.deepEqual(buckets.map((bucket: any) => bucket.stops.map((entry: any) => [entry.id, entry.duration])), [
+      [['900079201', 3]],
+      [['900078102', 8]]
+    ]);
+    assert.deepEqual(geojson.features, [
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [13.4255, 52.4797] },
+        properties: { id: '900079201', name: 'U Boddinstr. (Berlin)', duration: 3 }
+      },
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [13.4351, 52.4811] },
+        properties: { id: '900078102', name: 'U Rathaus Neukölln (Berlin)', duration: 8 }
+      }
+    ]);
+    await client.close();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { connectClient, unusedClient } from './helpers.js';
+
+// Must be set before the server modules load their configuration
+process.env.BVG_TOOLS_DISABLED = 'bvg_places_*, bvg_radar';
+
+describe('tool registry', () => {
+  test('lists only enabled tools with their annotations', async () => {
+    const client: Client = await connectClient({ client: unusedClient });
+    const { tools } = await client.listTools();
+    const names = tools.map(tool => tool.name);
+
+    assert.ok(names.includes('bvg_stop_departures'));
+    assert.ok(!names.includes('bvg_radar'));
+    assert.ok(!names.some(name => name.startsWith('bvg_places_')));
+    assert.deepEqual(tools.find(tool => tool.name === 'bvg_stop_departures')?.annotations, {
+      readOnlyHint: true,
+      openWorldHint: true
+    });
+
+    await assert.rejects(
+      client.callTool({ name: 'bvg_radar', arguments: { north: 52.53, west: 13.39, south: 52.51, east: 13.42 } }),
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.MethodNotFound
+    );
+    await client.close();
+  });
+
+  test('reports invalid parameters with their field paths', async () => {
+    const client: Client = await connectClient({ client: unusedClient });
+
+    await assert.rejects(
+      client.callTool({ name: 'bvg_stop_departures', arguments: { duration: 'soon' } }),
+      (error: unknown) => {
+        assert.ok(error instanceof McpError);
+        assert.equal(error.code, ErrorCode.InvalidParams);
+        assert.match(error.message, /stopId: Required/);
+        assert.match(error.message, /duration: Expected number/);
+        return true;
+      }
+    );
+    await client.close();
+  });
+
+  test('selects tools by enabled and disabled patterns', async () => {
+    const { selectTools } = await import('../src/utils/registry.js');
+    const tools = ['bvg_stop_details', 'bvg_stop_departures', 'bvg_radar'].map(name => ({ name }));
+
+    assert.deepEqual(selectTools(tools, {}).map(tool => tool.name), ['bvg_stop_details', 'bvg_stop_departures', 'bvg_radar']);
+    assert.deepEqual(
+      selectTools(tools, { enabled: ['bvg_stop_*'], disabled: ['bvg_stop_details'] }).map(tool => tool.name),
+      ['bvg_stop_departures']
+    );
+  });
+});
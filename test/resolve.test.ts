@@ -0,0 +1,45 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BvgClient } from '../src/utils/api.js';
+import './helpers.js';
+
+const { locationQueryParams, resolveLocation } = await import('../src/utils/resolve.js');
+
+/**
+ * Client answering /locations with a single address
+ */
+function locationsClient(): BvgClient & { endpoints: string[] } {
+  const endpoints: string[] = [];
+  return {
+    endpoints,
+    async get<T>(endpoint: string): Promise<T> {
+      endpoints.push(endpoint);
+      return [{ type: 'location', address: '10115 Berlin', latitude: 52.53, longitude: 13.38 }] as T;
+    }
+  };
+}
+
+describe('location resolution', () => {
+  test('treats HAFAS and IFOPT IDs as stop IDs', async () => {
+    const client = locationsClient();
+
+    assert.equal((await resolveLocation('900100003', { client })).kind, 'stop-id');
+    assert.equal((await resolveLocation('de:11000:900100003', { client })).kind, 'stop-id');
+    assert.deepEqual(client.endpoints, []);
+  });
+
+  test('looks up postcodes instead of treating them as stop IDs', async () => {
+    const client = locationsClient();
+    const resolved = await resolveLocation('10115', { client });
+
+    assert.deepEqual(client.endpoints, ['/locations']);
+    assert.equal(resolved.kind, 'address');
+    assert.equal(resolved.name, '10115 Berlin');
+  });
+
+  test('sends the coordinates as address when there is no label', () => {
+    const params = locationQueryParams('from', { input: 'home', kind: 'address', latitude: 52.5, longitude: 13.4 });
+
+    assert.equal(params['from.address'], '52.5,13.4');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { registerResources } from '../src/resources.js';
+import { stop } from './helpers.js';
+
+const TRIP = {
+  id: 'trip-1',
+  origin: stop('900100003', 'S+U Alexanderplatz (Berlin)'),
+  destination: stop('900100001', 'S+U Friedrichstr. (Berlin)'),
+  line: { type: 'line', id: 's5', name: 'S5', public: true, mode: 'train', product: 'suburban' },
+  stopovers: []
+};
+
+/**
+ * Client answering trip lookups more slowly than the poll interval,
+ * recording how many requests were in flight at once
+ */
+function slowClient(): BvgClient & { requests: number; maxInFlight: number } {
+  let inFlight = 0;
+  const api = {
+    requests: 0,
+    maxInFlight: 0,
+    async get<T>(): Promise<T> {
+      api.requests++;
+      api.maxInFlight = Math.max(api.maxInFlight, ++inFlight);
+      await delay(50);
+      inFlight--;
+      return { trip: TRIP } as T;
+    }
+  };
+  return api;
+}
+
+describe('resource subscriptions', () => {
+  test('poll one request at a time and stop when the server closes', async () => {
+    const api = slowClient();
+    const server = new Server({ name: 'mcp-bvg-test', version: '1.0.0' }, { capabilities: { resources: { subscribe: true } } });
+    let closed = false;
+    server.onclose = () => { closed = true; };
+    registerResources(server, 10, api);
+
+    const client = new Client({ name: 'mcp-bvg-test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    await client.subscribeResource({ uri: 'bvg://trips/trip-1' });
+    await delay(300);
+    await client.close();
+    const requests = api.requests;
+    await delay(100);
+
+    assert.ok(requests > 2, `expected repeated polls, got ${requests}`);
+    assert.equal(api.maxInFlight, 1);
+    assert.equal(api.requests, requests);
+    assert.ok(closed);
+  });
+});
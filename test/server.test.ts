@@ -0,0 +1,166 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server as HttpServer } from 'node:http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { BvgApiClient } from '../src/utils/api.js';
+import { BvgErrorCode } from '../src/utils/errors.js';
+import { mockUpstreamUrl, startMockUpstream } from '../src/mock-upstream.js';
+import { connectClient, FIXTURES_DIR, RECORDED_AT } from './helpers.js';
+
+const TRIP_ID = '1|27402|3|86|18102026';
+
+/**
+ * Call a tool and return its structured content, failing on tool errors
+ */
+async function callTool(client: Client, name: string, args: Record<string, unknown>): Promise<any> {
+  const result = await client.callTool({ name, arguments: args });
+  assert.ok(!result.isError, `${name} returned an error: ${JSON.stringify(result.content)}`);
+  return result.structuredContent;
+}
+
+/**
+ * Assert that a tool call fails with the given MCP error code
+ */
+async function assertToolError(client: Client, name: string, args: Record<string, unknown>, code: number): Promise<void> {
+  await assert.rejects(
+    client.callTool({ name, arguments: args }),
+    (error: unknown) => {
+      assert.ok(error instanceof McpError, `expected an McpError, got ${error}`);
+      assert.equal(error.code, code);
+      return true;
+    }
+  );
+}
+
+describe('MCP server against recorded upstream fixtures', () => {
+  let upstream: HttpServer;
+  let client: Client;
+
+  before(async () => {
+    upstream = await startMockUpstream({ fixturesDir: FIXTURES_DIR });
+    client = await connectClient({ client: new BvgApiClient(mockUpstreamUrl(upstream), { cache: false, maxRetries: 0 }) });
+  });
+
+  after(async () => {
+    await client.close();
+    await new Promise(resolve => upstream.close(resolve));
+  });
+
+  test('lists the core tools', async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map(tool => tool.name);
+
+    [
+      'bvg_locations_search',
+      'bvg_locations_nearby',
+      'bvg_stop_details',
+      'bvg_stop_departures',
+      'bvg_stop_arrivals',
+      'bvg_journey_plan',
+      'bvg_trip_details',
+      'bvg_radar'
+    ].forEach(name => assert.ok(names.includes(name), `${name} is missing`));
+  });
+
+  test('bvg_locations_search finds stops by name', async () => {
+    const { locations } = await callTool(client, 'bvg_locations_search', { query: 'Alexanderplatz', results: 3 });
+
+    assert.equal(locations[0].id, '900100003');
+    assert.equal(locations[0].name, 'S+U Alexanderplatz (Berlin)');
+  });
+
+  test('bvg_locations_nearby returns stops with walking distance', async () => {
+    const { locations } = await callTool(client, 'bvg_locations_nearby', {
+      coordinates: '52.5215,13.4115',
+      results: 2,
+      distance: 500
+    });
+
+    assert.deepEqual(locations.map((location: any) => location.distance), [35, 212]);
+  });
+
+  test('bvg_stop_details returns the stop with its products', async () => {
+    const stop = await callTool(client, 'bvg_stop_details', { stopId: '900100003' });
+
+    assert.equal(stop.name, 'S+U Alexanderplatz (Berlin)');
+    assert.equal(stop.products.subway, true);
+  });
+
+  test('bvg_stop_departures applies the line filter client-side', async () => {
+    const all = await callTool(client, 'bvg_stop_departures', { stopId: '900100003', when: RECORDED_AT, duration: 10 });
+    assert.equal(all.departures.length, 3);
+
+    const u2 = await callTool(client, 'bvg_stop_departures', { stopId: '900100003', when: RECORDED_AT, duration: 10, line: 'U2' });
+    assert.deepEqual(u2.departures.map((departure: any) => departure.line.name), ['U2']);
+  });
+
+  test('bvg_stop_arrivals returns arrivals with their origin', async () => {
+    const { arrivals } = await callTool(client, 'bvg_stop_arrivals', { stopId: '900100003', when: RECORDED_AT, duration: 10 });
+
+    assert.equal(arrivals.length, 2);
+    assert.equal(arrivals[0].provenance, 'S Erkner Bhf');
+  });
+
+  test('bvg_journey_plan resolves stop IDs and returns journeys', async () => {
+    const result = await callTool(client, 'bvg_journey_plan', {
+      from: '900100003',
+      to: '900100001',
+      departure: RECORDED_AT,
+      results: 1
+    });
+
+    assert.equal(result.resolved.from.kind, 'stop-id');
+    assert.equal(result.journeys.length, 1);
+    assert.equal(result.journeys[0].legs[0].line.name, 'S5');
+  });
+
+  test('bvg_trip_details returns the stopovers of a trip', async () => {
+    const trip = await callTool(client, 'bvg_trip_details', { tripId: TRIP_ID });
+
+    assert.equal(trip.line.name, 'S5');
+    assert.deepEqual(trip.stopovers.map((stopover: any) => stopover.stop.id), ['900100003', '900100004', '900100001']);
+  });
+
+  test('bvg_radar returns movements in the area', async () => {
+    const { movements } = await callTool(client, 'bvg_radar', {
+      north: 52.53,
+      west: 13.39,
+      south: 52.51,
+      east: 13.42,
+      results: 10
+    });
+
+    assert.equal(movements.length, 2);
+    assert.equal(movements[0].tripId, TRIP_ID);
+  });
+
+  test('compact radar output is an object of vehicles without tracking too', async () => {
+    const result = await client.callTool({
+      name: 'bvg_radar',
+      arguments: { north: 52.53, west: 13.39, south: 52.51, east: 13.42, results: 10, format: 'compact' }
+    });
+    const compact = JSON.parse((result.content as any)[0].text);
+
+    assert.deepEqual(Object.keys(compact), ['vehicles']);
+    assert.equal(compact.vehicles[0].tripId, TRIP_ID);
+  });
+
+  test('rejects invalid parameters', async () => {
+    await assertToolError(client, 'bvg_stop_departures', { duration: 10 }, ErrorCode.InvalidParams);
+    await assertToolError(client, 'bvg_radar', { north: 52.5, west: 13.4, south: 52.6, east: 13.5 }, ErrorCode.InvalidParams);
+  });
+
+  test('reports unknown stops as not found', async () => {
+    await assertToolError(client, 'bvg_stop_details', { stopId: '900999999' }, BvgErrorCode.NotFound);
+  });
+
+  test('reports upstream failures as unavailable', async () => {
+    // No fixture exists for this stop, so the mock upstream answers with a 502
+    await assertToolError(client, 'bvg_stop_departures', { stopId: '900000001' }, BvgErrorCode.UpstreamUnavailable);
+  });
+
+  test('rejects unknown tools', async () => {
+    await assertToolError(client, 'bvg_teleport', {}, ErrorCode.MethodNotFound);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { connectClient, RECORDED_AT } from './helpers.js';
+
+const AREA = { north: 52.53, west: 13.39, south: 52.51, east: 13.42 };
+
+function movement(tripId: string, line: string) {
+  return {
+    tripId,
+    line: { type: 'line', id: line.toLowerCase(), name: line, public: true, mode: 'bus', product: 'bus' },
+    location: { type: 'location', latitude: 52.52, longitude: 13.41 }
+  };
+}
+
+/**
+ * Client answering radar requests with more vehicles than requested, recording the queries
+ */
+function radarClient(): BvgClient & { queries: Record<string, any>[] } {
+  const queries: Record<string, any>[] = [];
+  return {
+    queries,
+    async get<T>(_endpoint: string, params: Record<string, any> = {}): Promise<T> {
+      queries.push(params);
+      return { movements: [movement('1', '200'), movement('2', 'M10'), movement('3', 'M10')] } as T;
+    }
+  };
+}
+
+/**
+ * Client answering trip searches without trips, recording the queries
+ */
+function tripsClient(): BvgClient & { queries: Record<string, any>[] } {
+  const queries: Record<string, any>[] = [];
+  return {
+    queries,
+    async get<T>(_endpoint: string, params: Record<string, any> = {}): Promise<T> {
+      queries.push(params);
+      return { trips: [] } as T;
+    }
+  };
+}
+
+describe('trip search', () => {
+  test('only searches running trips when no time is given', async () => {
+    const api = tripsClient();
+    const client: Client = await connectClient({ client: api });
+
+    await client.callTool({ name: 'bvg_trips_search', arguments: { lineName: 'U2' } });
+    await client.callTool({ name: 'bvg_trips_search', arguments: { lineName: 'U2', when: RECORDED_AT } });
+    await client.callTool({ name: 'bvg_trips_search', arguments: { lineName: 'U2', fromWhen: RECORDED_AT, onlyCurrentlyRunning: true } });
+
+    assert.deepEqual(api.queries.map(query => query.onlyCurrentlyRunning), [true, false, true]);
+    await client.close();
+  });
+});
+
+describe('radar', () => {
+  test('filters all vehicles in the area before applying the results limit', async () => {
+    const api = radarClient();
+    const client: Client = await connectClient({ client: api });
+
+    const result = await client.callTool({ name: 'bvg_radar', arguments: { ...AREA, line: 'M10', results: 1 } });
+    const { movements } = result.structuredContent as any;
+
+    assert.equal(api.queries[0].results, 256);
+    assert.deepEqual(movements.map((vehicle: any) => vehicle.tripId), ['2']);
+    await client.close();
+  });
+
+  test('rejects track mode polling for longer than 45 seconds', async () => {
+    const api = radarClient();
+    const client: Client = await connectClient({ client: api });
+
+    await assert.rejects(
+      client.callTool({ name: 'bvg_radar', arguments: { ...AREA, tripId: '2', track: true, trackInterval: 30, trackPolls: 3 } }),
+      (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams
+    );
+    assert.equal(api.queries.length, 0);
+    await client.close();
+  });
+});
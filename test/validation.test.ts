@@ -0,0 +1,47 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { BvgClient } from '../src/utils/api.js';
+import { StopSchema } from '../src/types/schemas.js';
+import { Stop } from '../src/types/bvg.js';
+import { validateResponse } from '../src/utils/validation.js';
+import { connectClient } from './helpers.js';
+
+/**
+ * Client answering every request with a stop that lost its coordinates
+ */
+const driftedClient: BvgClient = {
+  async get<T>(): Promise<T> {
+    return { type: 'stop', id: '900100003', name: 'S+U Alexanderplatz (Berlin)', products: {} } as T;
+  }
+};
+
+describe('response validation', () => {
+  test('removes nulls the upstream sends for missing data', () => {
+    const stop = validateResponse<Stop>(StopSchema, {
+      type: 'stop',
+      id: '900100003',
+      name: 'S+U Alexanderplatz (Berlin)',
+      location: { type: 'location', latitude: 52.52, longitude: 13.41 },
+      products: { subway: true },
+      station: null
+    }, 'stop');
+
+    assert.equal('station' in stop, false);
+    assert.equal(stop.latitude, 52.52);
+  });
+
+  test('rejects tool results that drifted from the output schema', async () => {
+    const client: Client = await connectClient({ client: driftedClient });
+
+    // Lenient upstream validation lets the drift through, the output schema does not
+    await assert.rejects(
+      client.callTool({ name: 'bvg_stop_details', arguments: { stopId: '900100003' } }),
+      (error: unknown) => error instanceof McpError &&
+        error.code === ErrorCode.InternalError &&
+        /location: Required/.test(error.message)
+    );
+    await client.close();
+  });
+});